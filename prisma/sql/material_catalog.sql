@@ -0,0 +1,67 @@
+-- Replaces the WasteType enum with the materials catalog on an existing database.
+-- Existing PET/ALUMINUM/HDPE values are mapped to catalog rows with the same code.
+--
+-- Use it as the body of the generated migration instead of Prisma's default,
+-- which would drop the enum columns and their data:
+--   npx prisma migrate dev --create-only --name material_catalog
+--   cp prisma/sql/material_catalog.sql prisma/migrations/<timestamp>_material_catalog/migration.sql
+--   npx prisma migrate dev
+
+BEGIN;
+
+-- CreateTable
+CREATE TABLE "materials" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "nameFr" TEXT,
+    "unit" TEXT NOT NULL DEFAULT 'kg',
+    "isPaid" BOOLEAN NOT NULL DEFAULT true,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "materials_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "materials_code_key" ON "materials"("code");
+
+-- Seed the catalog with the former enum values
+INSERT INTO "materials" ("id", "code", "name", "nameFr", "updatedAt") VALUES
+    (gen_random_uuid()::text, 'PET', 'PET bottles', 'Bouteilles PET', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'ALUMINUM', 'Aluminum and metal', 'Aluminium et métaux', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'HDPE', 'Clean HDPE', 'PEHD propre', CURRENT_TIMESTAMP);
+
+-- waste_declarations.wasteType -> materialId
+ALTER TABLE "waste_declarations" ADD COLUMN "materialId" TEXT;
+UPDATE "waste_declarations" d SET "materialId" = m."id"
+    FROM "materials" m WHERE m."code" = d."wasteType"::text;
+ALTER TABLE "waste_declarations" ALTER COLUMN "materialId" SET NOT NULL;
+ALTER TABLE "waste_declarations" DROP COLUMN "wasteType";
+CREATE INDEX "waste_declarations_materialId_idx" ON "waste_declarations"("materialId");
+ALTER TABLE "waste_declarations" ADD CONSTRAINT "waste_declarations_materialId_fkey"
+    FOREIGN KEY ("materialId") REFERENCES "materials"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- material_prices.wasteType -> materialId
+ALTER TABLE "material_prices" ADD COLUMN "materialId" TEXT;
+UPDATE "material_prices" p SET "materialId" = m."id"
+    FROM "materials" m WHERE m."code" = p."wasteType"::text;
+ALTER TABLE "material_prices" ALTER COLUMN "materialId" SET NOT NULL;
+DROP INDEX IF EXISTS "material_prices_agencyId_wasteType_effectiveFrom_idx";
+ALTER TABLE "material_prices" DROP COLUMN "wasteType";
+CREATE INDEX "material_prices_agencyId_materialId_effectiveFrom_idx" ON "material_prices"("agencyId", "materialId", "effectiveFrom");
+ALTER TABLE "material_prices" ADD CONSTRAINT "material_prices_materialId_fkey"
+    FOREIGN KEY ("materialId") REFERENCES "materials"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- split_policies.wasteType -> materialId (null still means every material)
+ALTER TABLE "split_policies" ADD COLUMN "materialId" TEXT;
+UPDATE "split_policies" s SET "materialId" = m."id"
+    FROM "materials" m WHERE m."code" = s."wasteType"::text;
+ALTER TABLE "split_policies" DROP COLUMN "wasteType";
+ALTER TABLE "split_policies" ADD CONSTRAINT "split_policies_materialId_fkey"
+    FOREIGN KEY ("materialId") REFERENCES "materials"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- DropEnum
+DROP TYPE "WasteType";
+
+COMMIT;
@@ -0,0 +1,11 @@
+-- Renames the APPROVED payout status to PROCESSING on an existing database.
+-- APPROVED payouts were sent (or about to be) with an unknown outcome, which is
+-- exactly what PROCESSING means; approving them again checks with the provider.
+--
+-- Use it as the body of the generated migration instead of Prisma's default,
+-- which would fail on rows that still use APPROVED:
+--   npx prisma migrate dev --create-only --name payout_processing_status
+--   cp prisma/sql/payout_processing_status.sql prisma/migrations/<timestamp>_payout_processing_status/migration.sql
+--   npx prisma migrate dev
+
+ALTER TYPE "PayoutStatus" RENAME VALUE 'APPROVED' TO 'PROCESSING';
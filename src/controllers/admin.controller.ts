@@ -0,0 +1,281 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { z } from 'zod';
+import { UserStatus } from '@prisma/client';
+import { prisma } from '../index';
+import { accountCreateData } from '../services/accounts';
+import { revokeAllSessions } from '../services/sessions';
+import { getSmsProvider } from '../services/sms';
+
+// Validation schemas
+const inviteUserSchema = z.object({
+    phone: z.string().min(9, 'Phone number must be at least 9 characters'),
+    role: z.enum(['COLLECTOR', 'AGENCY', 'MUNICIPAL']),
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+});
+
+const suspendUserSchema = z.object({
+    reason: z.string().min(1, 'A reason is required'),
+});
+
+const userSelect = {
+    id: true,
+    phone: true,
+    role: true,
+    status: true,
+    statusReason: true,
+    phoneVerifiedAt: true,
+    createdAt: true,
+    profile: {
+        select: {
+            firstName: true,
+            lastName: true,
+            city: true,
+        },
+    },
+} as const;
+
+/**
+ * Text a user about their account; failures are logged, not raised,
+ * since the account change itself already happened
+ * @returns true if the message was sent
+ */
+async function notifyUser(phone: string, body: string): Promise<boolean> {
+    try {
+        const result = await getSmsProvider().send({ to: phone, body });
+        if (!result.success) {
+            console.error('Account notification error:', result.error);
+        }
+        return result.success;
+    } catch (error) {
+        console.error('Account notification error:', error);
+        return false;
+    }
+}
+
+/**
+ * Change a user's status if it is currently one of the given statuses
+ */
+async function transitionStatus(
+    id: string,
+    fromStatuses: UserStatus[],
+    data: { status: UserStatus; statusReason: string | null },
+    conflictMessage: string
+) {
+    const user = await prisma.user.findUnique({
+        where: { id },
+        select: { status: true },
+    });
+
+    if (!user) {
+        return { status: 404, body: { error: 'User not found' } };
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+        // Guard against two admins changing the same account
+        const changed = await tx.user.updateMany({
+            where: { id, status: { in: fromStatuses } },
+            data,
+        });
+
+        if (changed.count === 0) {
+            return null;
+        }
+
+        // Suspended users are signed out everywhere at once
+        if (data.status === 'SUSPENDED') {
+            await revokeAllSessions(tx, id);
+        }
+
+        return tx.user.findUniqueOrThrow({
+            where: { id },
+            select: userSelect,
+        });
+    });
+
+    if (!updated) {
+        return { status: 409, body: { error: conflictMessage } };
+    }
+
+    return { user: updated };
+}
+
+/**
+ * ADMIN: List users
+ */
+export const getUsers = async (req: Request, res: Response) => {
+    try {
+        const { role, status } = req.query;
+
+        let where: any = {};
+
+        if (role) {
+            where.role = role;
+        }
+
+        if (status) {
+            where.status = status;
+        }
+
+        const users = await prisma.user.findMany({
+            where,
+            select: userSelect,
+            orderBy: {
+                createdAt: 'desc',
+            },
+        });
+
+        res.json({ users, count: users.length });
+    } catch (error) {
+        console.error('Get users error:', error);
+        res.status(500).json({ error: 'Failed to fetch users' });
+    }
+};
+
+/**
+ * ADMIN: Create a COLLECTOR, AGENCY or MUNICIPAL account.
+ * The invitee sets their password with the forgotten password flow,
+ * which also verifies their phone.
+ */
+export const inviteUser = async (req: Request, res: Response) => {
+    try {
+        const data = inviteUserSchema.parse(req.body);
+
+        const existingUser = await prisma.user.findUnique({
+            where: { phone: data.phone },
+        });
+
+        if (existingUser) {
+            return res.status(400).json({ error: 'Phone number already registered' });
+        }
+
+        // Nobody knows this password: the account is unusable until the invitee sets one
+        const hashedPassword = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+
+        const user = await prisma.user.create({
+            data: accountCreateData({
+                phone: data.phone,
+                hashedPassword,
+                role: data.role,
+                firstName: data.firstName,
+                lastName: data.lastName,
+            }),
+            select: userSelect,
+        });
+
+        const inviteSent = await notifyUser(
+            user.phone,
+            `You have been invited to CityLink as ${user.role}. Open the app and use "Forgot password" with this number to set your password.`
+        );
+
+        res.status(201).json({
+            message: 'User invited',
+            user,
+            inviteSent,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Invite user error:', error);
+        res.status(500).json({ error: 'Failed to invite user' });
+    }
+};
+
+/**
+ * ADMIN: Approve a self-registered collector, or a staff account held by accounts:review-staff
+ */
+export const approveUser = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const result = await transitionStatus(
+            id,
+            ['PENDING_APPROVAL'],
+            { status: 'ACTIVE', statusReason: null },
+            'User is not pending approval'
+        );
+
+        if ('body' in result) {
+            return res.status(result.status).json(result.body);
+        }
+
+        const { user } = result;
+
+        await notifyUser(user.phone, 'Your CityLink account has been approved. You can now log in.');
+
+        res.json({
+            message: 'User approved',
+            user,
+        });
+    } catch (error) {
+        console.error('Approve user error:', error);
+        res.status(500).json({ error: 'Failed to approve user' });
+    }
+};
+
+/**
+ * ADMIN: Suspend a user, signing them out of every device
+ */
+export const suspendUser = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const data = suspendUserSchema.parse(req.body);
+
+        if (id === req.user!.userId) {
+            return res.status(400).json({ error: 'You cannot suspend your own account' });
+        }
+
+        const result = await transitionStatus(
+            id,
+            ['PENDING_APPROVAL', 'ACTIVE'],
+            { status: 'SUSPENDED', statusReason: data.reason },
+            'User is already suspended'
+        );
+
+        if ('body' in result) {
+            return res.status(result.status).json(result.body);
+        }
+
+        res.json({
+            message: 'User suspended',
+            user: result.user,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Suspend user error:', error);
+        res.status(500).json({ error: 'Failed to suspend user' });
+    }
+};
+
+/**
+ * ADMIN: Reactivate a suspended user (they log in again)
+ */
+export const reactivateUser = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const result = await transitionStatus(
+            id,
+            ['SUSPENDED'],
+            { status: 'ACTIVE', statusReason: null },
+            'User is not suspended'
+        );
+
+        if ('body' in result) {
+            return res.status(result.status).json(result.body);
+        }
+
+        res.json({
+            message: 'User reactivated',
+            user: result.user,
+        });
+    } catch (error) {
+        console.error('Reactivate user error:', error);
+        res.status(500).json({ error: 'Failed to reactivate user' });
+    }
+};
@@ -1,24 +1,83 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { z } from 'zod';
 import { prisma } from '../index';
-import { Role } from '@prisma/client';
+import { UserStatus } from '@prisma/client';
+import { INACTIVE_ACCOUNT_ERRORS, accountCreateData } from '../services/accounts';
+import { getReputationTier } from '../services/reputation';
+import { describeBadges } from '../services/badges';
+import {
+    OtpDeliveryError,
+    OtpRateLimitError,
+    OtpVerificationError,
+    issueDecoyOtp,
+    issueOtp,
+    verifyOtp,
+} from '../services/otp';
+import { SessionMetadata, createSession, revokeAllSessions, revokeSession, rotateSession } from '../services/sessions';
 
 // Validation schemas
 const registerSchema = z.object({
     phone: z.string().min(9, 'Phone number must be at least 9 characters'),
     password: z.string().min(6, 'Password must be at least 6 characters'),
-    role: z.enum(['CITIZEN', 'COLLECTOR', 'AGENCY', 'MUNICIPAL']),
+    role: z.enum(['CITIZEN', 'COLLECTOR']), // Other roles are invited by an admin
     firstName: z.string().optional(),
     lastName: z.string().optional(),
+    deviceName: z.string().max(100).optional(),
 });
 
 const loginSchema = z.object({
     phone: z.string(),
     password: z.string(),
+    deviceName: z.string().max(100).optional(),
 });
 
+const refreshSchema = z.object({
+    refreshToken: z.string().min(1),
+});
+
+const verifyPhoneSchema = z.object({
+    code: z.string().regex(/^\d+$/, 'Code must be numeric'),
+});
+
+const changePasswordSchema = z.object({
+    currentPassword: z.string(),
+    newPassword: z.string().min(6, 'Password must be at least 6 characters'),
+});
+
+const forgotPasswordSchema = z.object({
+    phone: z.string(),
+});
+
+const resetPasswordSchema = z.object({
+    phone: z.string(),
+    code: z.string().regex(/^\d+$/, 'Code must be numeric'),
+    newPassword: z.string().min(6, 'Password must be at least 6 characters'),
+});
+
+const updateProfileSchema = z.object({
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+    address: z.string().optional(),
+    city: z.string().optional(),
+    latitude: z.number().min(-90).max(90).optional(),
+    longitude: z.number().min(-180).max(180).optional(),
+}).refine(
+    data => (data.latitude === undefined) === (data.longitude === undefined),
+    { message: 'Latitude and longitude must be provided together' }
+);
+
+/**
+ * Device details recorded on a new session
+ */
+function sessionMetadata(req: Request, deviceName?: string): SessionMetadata {
+    return {
+        deviceName,
+        userAgent: req.headers['user-agent'],
+        ipAddress: req.ip,
+    };
+}
+
 export const register = async (req: Request, res: Response) => {
     try {
         const data = registerSchema.parse(req.body);
@@ -35,39 +94,25 @@ export const register = async (req: Request, res: Response) => {
         // Hash password
         const hashedPassword = await bcrypt.hash(data.password, 10);
 
+        // Collectors handle other people's waste and get paid: an admin approves them first
+        const status: UserStatus = data.role === 'COLLECTOR' ? 'PENDING_APPROVAL' : 'ACTIVE';
+
         // Create user with profile
         const user = await prisma.user.create({
-            data: {
+            data: accountCreateData({
                 phone: data.phone,
-                password: hashedPassword,
-                role: data.role as Role,
-                profile: {
-                    create: {
-                        firstName: data.firstName,
-                        lastName: data.lastName,
-                    },
-                },
-                // Create wallet for CITIZEN and COLLECTOR roles (recycling module)
-                ...((['CITIZEN', 'COLLECTOR'] as Role[]).includes(data.role as Role) && {
-                    wallet: {
-                        create: {
-                            balance: 0,
-                        },
-                    },
-                }),
-                // Create reputation score for all users (dump reporting module)
-                reputationScore: {
-                    create: {
-                        score: 0,
-                        verifiedReports: 0,
-                        falseReports: 0,
-                    },
-                },
-            },
+                hashedPassword,
+                role: data.role,
+                status,
+                firstName: data.firstName,
+                lastName: data.lastName,
+            }),
             select: {
                 id: true,
                 phone: true,
                 role: true,
+                status: true,
+                phoneVerifiedAt: true,
                 createdAt: true,
                 profile: {
                     select: {
@@ -78,17 +123,30 @@ export const register = async (req: Request, res: Response) => {
             },
         });
 
-        // Generate JWT token (100 years expiration as specified)
-        const token = jwt.sign(
-            { userId: user.id, role: user.role },
-            process.env.JWT_SECRET as string,
-            { expiresIn: String(process.env.JWT_EXPIRATION || '876000h') } as any
-        );
+        if (user.status === 'PENDING_APPROVAL') {
+            return res.status(201).json({
+                message: 'Registration received, your account will be usable once an admin approves it',
+                user,
+            });
+        }
+
+        // Sign the new device in
+        const tokens = await createSession(prisma, user, sessionMetadata(req, data.deviceName));
+
+        // The account works right away; the code can be requested again if it doesn't arrive
+        let verificationCodeSent = true;
+        try {
+            await issueOtp(prisma, user.phone, 'PHONE_VERIFICATION');
+        } catch (error) {
+            console.error('Registration verification code error:', error);
+            verificationCodeSent = false;
+        }
 
         res.status(201).json({
             message: 'User registered successfully',
             user,
-            token,
+            ...tokens,
+            verificationCodeSent,
         });
     } catch (error) {
         if (error instanceof z.ZodError) {
@@ -138,12 +196,14 @@ export const login = async (req: Request, res: Response) => {
             return res.status(401).json({ error: 'Invalid credentials' });
         }
 
-        // Generate JWT token (100 years expiration)
-        const token = jwt.sign(
-            { userId: user.id, role: user.role },
-            process.env.JWT_SECRET as string,
-            { expiresIn: String(process.env.JWT_EXPIRATION || '876000h') } as any
-        );
+        if (user.status !== 'ACTIVE') {
+            return res.status(403).json({
+                error: INACTIVE_ACCOUNT_ERRORS[user.status],
+                ...(user.statusReason && { reason: user.statusReason }),
+            });
+        }
+
+        const tokens = await createSession(prisma, user, sessionMetadata(req, data.deviceName));
 
         // Remove password from response
         const { password, ...userWithoutPassword } = user;
@@ -151,7 +211,7 @@ export const login = async (req: Request, res: Response) => {
         res.json({
             message: 'Login successful',
             user: userWithoutPassword,
-            token,
+            ...tokens,
         });
     } catch (error) {
         if (error instanceof z.ZodError) {
@@ -162,6 +222,332 @@ export const login = async (req: Request, res: Response) => {
     }
 };
 
+/**
+ * Exchange a refresh token for new tokens (the old refresh token stops working)
+ */
+export const refresh = async (req: Request, res: Response) => {
+    try {
+        const data = refreshSchema.parse(req.body);
+
+        const tokens = await rotateSession(prisma, data.refreshToken);
+
+        if (!tokens) {
+            return res.status(401).json({ error: 'Invalid refresh token' });
+        }
+
+        res.json(tokens);
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Refresh error:', error);
+        res.status(500).json({ error: 'Failed to refresh session' });
+    }
+};
+
+/**
+ * Sign out the current device
+ */
+export const logout = async (req: Request, res: Response) => {
+    try {
+        await revokeSession(prisma, req.user!.userId, req.user!.sessionId);
+
+        res.json({ message: 'Logged out' });
+    } catch (error) {
+        console.error('Logout error:', error);
+        res.status(500).json({ error: 'Logout failed' });
+    }
+};
+
+/**
+ * List the devices the user is signed in on
+ */
+export const getSessions = async (req: Request, res: Response) => {
+    try {
+        const sessions = await prisma.session.findMany({
+            where: {
+                userId: req.user!.userId,
+                revokedAt: null,
+                expiresAt: { gt: new Date() },
+            },
+            select: {
+                id: true,
+                deviceName: true,
+                userAgent: true,
+                ipAddress: true,
+                createdAt: true,
+                lastUsedAt: true,
+                expiresAt: true,
+            },
+            orderBy: {
+                lastUsedAt: 'desc',
+            },
+        });
+
+        res.json({
+            sessions: sessions.map(s => ({ ...s, isCurrent: s.id === req.user!.sessionId })),
+            count: sessions.length,
+        });
+    } catch (error) {
+        console.error('Get sessions error:', error);
+        res.status(500).json({ error: 'Failed to fetch sessions' });
+    }
+};
+
+/**
+ * Sign out another device (e.g. a lost phone)
+ */
+export const revokeUserSession = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const revoked = await revokeSession(prisma, req.user!.userId, id);
+
+        if (!revoked) {
+            return res.status(404).json({ error: 'Session not found' });
+        }
+
+        res.json({ message: 'Session revoked' });
+    } catch (error) {
+        console.error('Revoke session error:', error);
+        res.status(500).json({ error: 'Failed to revoke session' });
+    }
+};
+
+/**
+ * Sign out every device except the current one
+ */
+export const revokeOtherSessions = async (req: Request, res: Response) => {
+    try {
+        const revoked = await revokeAllSessions(prisma, req.user!.userId, req.user!.sessionId);
+
+        res.json({ message: `${revoked} session(s) revoked`, revoked });
+    } catch (error) {
+        console.error('Revoke sessions error:', error);
+        res.status(500).json({ error: 'Failed to revoke sessions' });
+    }
+};
+
+/**
+ * Send a verification code to the user's phone
+ */
+export const requestPhoneVerification = async (req: Request, res: Response) => {
+    try {
+        const user = await prisma.user.findUnique({
+            where: { id: req.user!.userId },
+            select: { phone: true, phoneVerifiedAt: true },
+        });
+
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        if (user.phoneVerifiedAt) {
+            return res.status(400).json({ error: 'Phone already verified' });
+        }
+
+        const { expiresAt } = await issueOtp(prisma, user.phone, 'PHONE_VERIFICATION');
+
+        res.json({
+            message: 'Verification code sent',
+            expiresAt,
+        });
+    } catch (error) {
+        if (error instanceof OtpRateLimitError) {
+            return res.status(429).json({
+                error: 'Too many codes requested',
+                retryAfterSeconds: error.retryAfterSeconds,
+            });
+        }
+        if (error instanceof OtpDeliveryError) {
+            return res.status(502).json({ error: 'Failed to send verification code' });
+        }
+        console.error('Request phone verification error:', error);
+        res.status(500).json({ error: 'Failed to send verification code' });
+    }
+};
+
+/**
+ * Verify the user's phone with the code sent to it
+ */
+export const verifyPhone = async (req: Request, res: Response) => {
+    try {
+        const data = verifyPhoneSchema.parse(req.body);
+
+        const user = await prisma.user.findUnique({
+            where: { id: req.user!.userId },
+            select: { phone: true, phoneVerifiedAt: true },
+        });
+
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        if (user.phoneVerifiedAt) {
+            return res.status(400).json({ error: 'Phone already verified' });
+        }
+
+        await verifyOtp(prisma, user.phone, 'PHONE_VERIFICATION', data.code);
+
+        const updated = await prisma.user.update({
+            where: { id: req.user!.userId },
+            data: { phoneVerifiedAt: new Date() },
+            select: { phone: true, phoneVerifiedAt: true },
+        });
+
+        res.json({
+            message: 'Phone verified',
+            ...updated,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        if (error instanceof OtpVerificationError) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('Verify phone error:', error);
+        res.status(500).json({ error: 'Failed to verify phone' });
+    }
+};
+
+/**
+ * Change the password, signing out every other device
+ */
+export const changePassword = async (req: Request, res: Response) => {
+    try {
+        const data = changePasswordSchema.parse(req.body);
+        const userId = req.user!.userId;
+
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { password: true },
+        });
+
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        const isValidPassword = await bcrypt.compare(data.currentPassword, user.password);
+
+        if (!isValidPassword) {
+            return res.status(401).json({ error: 'Invalid credentials' });
+        }
+
+        const hashedPassword = await bcrypt.hash(data.newPassword, 10);
+
+        const revoked = await prisma.$transaction(async (tx) => {
+            await tx.user.update({
+                where: { id: userId },
+                data: { password: hashedPassword },
+            });
+
+            return revokeAllSessions(tx, userId, req.user!.sessionId);
+        });
+
+        res.json({
+            message: 'Password changed',
+            sessionsRevoked: revoked,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Change password error:', error);
+        res.status(500).json({ error: 'Failed to change password' });
+    }
+};
+
+/**
+ * Send a password reset code to a registered phone.
+ * Answers the same whether or not the phone is registered.
+ */
+export const forgotPassword = async (req: Request, res: Response) => {
+    try {
+        const data = forgotPasswordSchema.parse(req.body);
+
+        const user = await prisma.user.findUnique({
+            where: { phone: data.phone },
+            select: { id: true },
+        });
+
+        // Every phone is rate limited the same way and delivery failures are not
+        // reported, so the response never reveals whether the phone is registered
+        try {
+            if (user) {
+                await issueOtp(prisma, data.phone, 'PASSWORD_RESET');
+            } else {
+                await issueDecoyOtp(prisma, data.phone, 'PASSWORD_RESET');
+            }
+        } catch (deliveryError) {
+            if (!(deliveryError instanceof OtpDeliveryError)) {
+                throw deliveryError;
+            }
+            console.error('Reset code delivery error:', deliveryError);
+        }
+
+        res.json({ message: 'If this phone is registered, a reset code has been sent' });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        if (error instanceof OtpRateLimitError) {
+            return res.status(429).json({
+                error: 'Too many codes requested',
+                retryAfterSeconds: error.retryAfterSeconds,
+            });
+        }
+        console.error('Forgot password error:', error);
+        res.status(500).json({ error: 'Failed to send reset code' });
+    }
+};
+
+/**
+ * Set a new password with a reset code, signing out every device
+ */
+export const resetPassword = async (req: Request, res: Response) => {
+    try {
+        const data = resetPasswordSchema.parse(req.body);
+
+        // Unknown phones only have decoy codes, so they fail here like a wrong code
+        await verifyOtp(prisma, data.phone, 'PASSWORD_RESET', data.code);
+
+        const hashedPassword = await bcrypt.hash(data.newPassword, 10);
+
+        const revoked = await prisma.$transaction(async (tx) => {
+            const user = await tx.user.update({
+                where: { phone: data.phone },
+                data: { password: hashedPassword },
+                select: { id: true, phoneVerifiedAt: true },
+            });
+
+            // Receiving the code proves the user owns the phone
+            if (!user.phoneVerifiedAt) {
+                await tx.user.update({
+                    where: { id: user.id },
+                    data: { phoneVerifiedAt: new Date() },
+                });
+            }
+
+            return revokeAllSessions(tx, user.id);
+        });
+
+        res.json({
+            message: 'Password reset, please log in again',
+            sessionsRevoked: revoked,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        if (error instanceof OtpVerificationError) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error('Reset password error:', error);
+        res.status(500).json({ error: 'Failed to reset password' });
+    }
+};
+
 export const getCurrentUser = async (req: Request, res: Response) => {
     try {
         const user = await prisma.user.findUnique({
@@ -170,6 +556,8 @@ export const getCurrentUser = async (req: Request, res: Response) => {
                 id: true,
                 phone: true,
                 role: true,
+                status: true,
+                phoneVerifiedAt: true,
                 createdAt: true,
                 profile: true,
                 wallet: {
@@ -184,6 +572,12 @@ export const getCurrentUser = async (req: Request, res: Response) => {
                         falseReports: true,
                     },
                 },
+                badges: {
+                    select: {
+                        badge: true,
+                        awardedAt: true,
+                    },
+                },
             },
         });
 
@@ -191,9 +585,39 @@ export const getCurrentUser = async (req: Request, res: Response) => {
             return res.status(404).json({ error: 'User not found' });
         }
 
-        res.json({ user });
+        res.json({
+            user: {
+                ...user,
+                reputationTier: getReputationTier(user.reputationScore?.score ?? 0).tier,
+                badges: describeBadges(user.badges),
+            },
+        });
     } catch (error) {
         console.error('Get current user error:', error);
         res.status(500).json({ error: 'Failed to fetch user data' });
     }
 };
+
+export const updateProfile = async (req: Request, res: Response) => {
+    try {
+        const data = updateProfileSchema.parse(req.body);
+        const userId = req.user!.userId;
+
+        const profile = await prisma.profile.upsert({
+            where: { userId },
+            create: { userId, ...data },
+            update: data,
+        });
+
+        res.json({
+            message: 'Profile updated successfully',
+            profile,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Update profile error:', error);
+        res.status(500).json({ error: 'Failed to update profile' });
+    }
+};
@@ -0,0 +1,468 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../index';
+import { DumpStatus, Prisma } from '@prisma/client';
+import { decodeBase64Image, generatePhotoHash } from '../utils/photoHash';
+import { isUniqueViolation } from '../utils/prismaErrors';
+import { refreshSite } from '../services/dumpSites';
+import {
+    PhotoFormat,
+    StoredDumpPhoto,
+    deleteDumpPhoto,
+    detectPhotoFormat,
+    storeDumpPhoto,
+} from '../services/dumpPhotos';
+
+// Validation schemas (multipart form fields arrive as strings)
+const updateStatusSchema = z.object({
+    status: z.enum(['SCHEDULED', 'IN_PROGRESS', 'CLEANED']),
+    scheduledFor: z.coerce.date().optional(),
+    afterPhotoBase64: z.string().min(100).optional(),
+    notes: z.string().optional(),
+});
+
+const reviewSchema = z.object({
+    photoBase64: z.string().min(100).optional(),
+    notes: z.string().optional(),
+});
+
+// Cleanup moves forward only; a contested cleanup goes back to VERIFIED
+const CLEANUP_TRANSITIONS: Record<DumpStatus, DumpStatus[]> = {
+    UNVERIFIED: [],
+    VERIFIED: ['SCHEDULED', 'IN_PROGRESS', 'CLEANED'],
+    SCHEDULED: ['SCHEDULED', 'IN_PROGRESS', 'CLEANED'], // SCHEDULED again = reschedule
+    IN_PROGRESS: ['CLEANED'],
+    CLEANED: [],
+    FALSE_REPORT: [],
+};
+
+const PHOTO_ALREADY_USED = {
+    error: 'Photo already used',
+    message: 'This photo has already been submitted. Please take a new photo.',
+};
+
+/**
+ * Read an optional photo sent as a multipart file or a base64 field
+ * @returns The photo and its format, or an HTTP error to send
+ */
+async function readPhoto(req: Request, photoBase64: string | undefined) {
+    const photo = req.file?.buffer
+        ?? (photoBase64 ? decodeBase64Image(photoBase64) : undefined);
+
+    if (!photo) {
+        return { photo: undefined };
+    }
+
+    const format = await detectPhotoFormat(photo);
+
+    if (!format) {
+        return {
+            status: 400,
+            body: { error: 'Invalid photo format', message: 'Send a JPEG, PNG or WebP image' },
+        };
+    }
+
+    return { photo: { image: photo, format } };
+}
+
+/**
+ * Upload a photo read by readPhoto, if there is one
+ */
+async function storePhoto(photo: { image: Buffer; format: PhotoFormat } | undefined) {
+    return photo ? storeDumpPhoto(photo.image, photo.format) : undefined;
+}
+
+/**
+ * Apply a status change to the other reports of the same dump site, then refresh the site.
+ * Reports of one physical dump are cleaned up together.
+ */
+async function applyToSite(
+    tx: Prisma.TransactionClient,
+    dump: { id: string; siteId: string | null },
+    fromStatuses: DumpStatus[],
+    toStatus: DumpStatus,
+    data: Prisma.DumpReportUncheckedUpdateManyInput,
+    changedById: string
+) {
+    if (!dump.siteId) return;
+
+    const siblings = await tx.dumpReport.findMany({
+        where: {
+            siteId: dump.siteId,
+            id: { not: dump.id },
+            status: { in: fromStatuses },
+        },
+        select: { id: true, status: true },
+    });
+
+    for (const sibling of siblings) {
+        const moved = await tx.dumpReport.updateMany({
+            where: { id: sibling.id, status: sibling.status },
+            data: { ...data, status: toStatus },
+        });
+
+        if (moved.count > 0) {
+            await tx.dumpStatusChange.create({
+                data: {
+                    dumpReportId: sibling.id,
+                    fromStatus: sibling.status,
+                    toStatus,
+                    changedById,
+                    notes: `Applied with report ${dump.id} of the same site`,
+                },
+            });
+        }
+    }
+
+    await refreshSite(tx, dump.siteId);
+}
+
+/**
+ * MUNICIPAL: Move a verified dump through scheduled → in progress → cleaned
+ */
+export const updateDumpStatus = async (req: Request, res: Response) => {
+    let stored: StoredDumpPhoto | undefined;
+
+    try {
+        const { id } = req.params;
+        const data = updateStatusSchema.parse(req.body);
+        const userId = req.user!.userId;
+
+        const dump = await prisma.dumpReport.findUnique({
+            where: { id },
+        });
+
+        if (!dump) {
+            return res.status(404).json({ error: 'Dump report not found' });
+        }
+
+        if (!CLEANUP_TRANSITIONS[dump.status].includes(data.status)) {
+            return res.status(400).json({
+                error: 'Invalid status',
+                message: `A ${dump.status} dump cannot be marked ${data.status}`
+            });
+        }
+
+        const afterPhoto = await readPhoto(req, data.afterPhotoBase64);
+
+        if ('body' in afterPhoto) {
+            return res.status(afterPhoto.status).json(afterPhoto.body);
+        }
+
+        if (data.status === 'CLEANED' && !afterPhoto.photo) {
+            return res.status(400).json({
+                error: 'Photo is required',
+                message: 'An after photo is required to mark a dump as cleaned'
+            });
+        }
+
+        const { photo } = afterPhoto;
+        let photoHash: string | undefined;
+
+        if (photo) {
+            photoHash = generatePhotoHash(photo.image.toString('base64'));
+
+            const existingPhoto = await prisma.photoHash.findUnique({
+                where: { hash: photoHash },
+            });
+
+            if (existingPhoto) {
+                return res.status(400).json(PHOTO_ALREADY_USED);
+            }
+        }
+
+        stored = await storePhoto(photo);
+        const now = new Date();
+
+        const updated = await prisma.$transaction(async (tx) => {
+            // Guard against two agents updating the same dump
+            const moved = await tx.dumpReport.updateMany({
+                where: { id, status: dump.status },
+                data: {
+                    status: data.status,
+                    ...(data.scheduledFor && { scheduledFor: data.scheduledFor }),
+                    ...(data.status === 'CLEANED' && { cleanedAt: now }),
+                },
+            });
+
+            if (moved.count === 0) {
+                return null;
+            }
+
+            if (photoHash) {
+                await tx.photoHash.create({
+                    data: {
+                        hash: photoHash,
+                        uploadedBy: userId,
+                    },
+                });
+            }
+
+            // The after photo is kept once, on the change; the site's reports point to it
+            const change = await tx.dumpStatusChange.create({
+                data: {
+                    dumpReportId: id,
+                    fromStatus: dump.status,
+                    toStatus: data.status,
+                    changedById: userId,
+                    photoKey: stored?.photoKey,
+                    thumbnailKey: stored?.thumbnailKey,
+                    notes: data.notes,
+                },
+            });
+
+            if (data.status === 'CLEANED') {
+                await tx.dumpReport.update({
+                    where: { id },
+                    data: { cleanupChangeId: change.id },
+                });
+            }
+
+            await applyToSite(
+                tx,
+                dump,
+                (Object.keys(CLEANUP_TRANSITIONS) as DumpStatus[])
+                    .filter(s => CLEANUP_TRANSITIONS[s].includes(data.status)),
+                data.status,
+                {
+                    ...(data.scheduledFor && { scheduledFor: data.scheduledFor }),
+                    ...(data.status === 'CLEANED' && { cleanedAt: now, cleanupChangeId: change.id }),
+                },
+                userId
+            );
+
+            return tx.dumpReport.findUnique({
+                where: { id },
+            });
+        });
+
+        if (!updated) {
+            return res.status(409).json({ error: 'Dump status was changed by someone else, please retry' });
+        }
+
+        // The status change is saved, so the photo is no longer an orphan
+        stored = undefined;
+
+        res.json({
+            message: `Dump marked ${data.status}`,
+            dump: {
+                ...updated,
+                photoUrl: updated.photoUrl ? `[${updated.photoUrl.length} bytes]` : null,
+            },
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        // The same photo was submitted concurrently, after the check above
+        if (isUniqueViolation(error, 'hash')) {
+            return res.status(400).json(PHOTO_ALREADY_USED);
+        }
+        console.error('Update dump status error:', error);
+        res.status(500).json({ error: 'Failed to update dump status' });
+    } finally {
+        if (stored) {
+            await deleteDumpPhoto(stored);
+        }
+    }
+};
+
+/**
+ * Shared checks for reporters reviewing a cleanup
+ * @returns The dump, or an HTTP error to send
+ */
+async function findReviewableDump(dumpReportId: string, reviewerId: string) {
+    const dump = await prisma.dumpReport.findUnique({
+        where: { id: dumpReportId },
+        include: {
+            verifications: true,
+        },
+    });
+
+    if (!dump) {
+        return { status: 404, body: { error: 'Dump report not found' } };
+    }
+
+    // The reporter and users whose reports corroborated it have seen the dump
+    if (!dump.verifications.some(v => v.verifierId === reviewerId)) {
+        return { status: 403, body: { error: 'Only users who reported this dump can review its cleanup' } };
+    }
+
+    if (dump.status !== 'CLEANED' || !dump.cleanedAt) {
+        return {
+            status: 400,
+            body: { error: 'Invalid status', message: 'Only CLEANED dumps can be reviewed' },
+        };
+    }
+
+    const alreadyReviewed = await prisma.cleanupReview.findFirst({
+        where: {
+            dumpReportId,
+            reviewerId,
+            createdAt: { gte: dump.cleanedAt },
+        },
+    });
+
+    if (alreadyReviewed) {
+        return { status: 400, body: { error: 'You have already reviewed this cleanup' } };
+    }
+
+    return { dump };
+}
+
+/**
+ * Reporter: Confirm that a dump was actually cleaned
+ */
+export const confirmCleanup = async (req: Request, res: Response) => {
+    let stored: StoredDumpPhoto | undefined;
+
+    try {
+        const { id } = req.params;
+        const data = reviewSchema.parse(req.body);
+        const reviewerId = req.user!.userId;
+
+        const check = await findReviewableDump(id, reviewerId);
+
+        if ('body' in check) {
+            return res.status(check.status).json(check.body);
+        }
+
+        const evidence = await readPhoto(req, data.photoBase64);
+
+        if ('body' in evidence) {
+            return res.status(evidence.status).json(evidence.body);
+        }
+
+        stored = await storePhoto(evidence.photo);
+
+        const review = await prisma.cleanupReview.create({
+            data: {
+                dumpReportId: id,
+                reviewerId,
+                outcome: 'CONFIRMED',
+                photoKey: stored?.photoKey,
+                thumbnailKey: stored?.thumbnailKey,
+                notes: data.notes,
+            },
+        });
+
+        stored = undefined;
+
+        res.status(201).json({
+            message: 'Cleanup confirmed',
+            review,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Confirm cleanup error:', error);
+        res.status(500).json({ error: 'Failed to confirm cleanup' });
+    } finally {
+        if (stored) {
+            await deleteDumpPhoto(stored);
+        }
+    }
+};
+
+/**
+ * Reporter: Contest a cleanup, reopening the dump as VERIFIED
+ */
+export const contestCleanup = async (req: Request, res: Response) => {
+    let stored: StoredDumpPhoto | undefined;
+
+    try {
+        const { id } = req.params;
+        const data = reviewSchema.parse(req.body);
+        const reviewerId = req.user!.userId;
+
+        const check = await findReviewableDump(id, reviewerId);
+
+        if ('body' in check) {
+            return res.status(check.status).json(check.body);
+        }
+
+        const evidence = await readPhoto(req, data.photoBase64);
+
+        if ('body' in evidence) {
+            return res.status(evidence.status).json(evidence.body);
+        }
+
+        if (!data.notes && !evidence.photo) {
+            return res.status(400).json({ error: 'Explain or show why the dump is not cleaned' });
+        }
+
+        stored = await storePhoto(evidence.photo);
+
+        const review = await prisma.$transaction(async (tx) => {
+            const reopened = await tx.dumpReport.updateMany({
+                where: { id, status: 'CLEANED' },
+                data: {
+                    status: 'VERIFIED',
+                    scheduledFor: null,
+                    cleanupChangeId: null,
+                    cleanedAt: null,
+                },
+            });
+
+            if (reopened.count === 0) {
+                return null;
+            }
+
+            await tx.dumpStatusChange.create({
+                data: {
+                    dumpReportId: id,
+                    fromStatus: 'CLEANED',
+                    toStatus: 'VERIFIED',
+                    changedById: reviewerId,
+                    notes: data.notes ? `Cleanup contested: ${data.notes}` : 'Cleanup contested',
+                },
+            });
+
+            await applyToSite(
+                tx,
+                check.dump,
+                ['CLEANED'],
+                'VERIFIED',
+                {
+                    scheduledFor: null,
+                    cleanupChangeId: null,
+                    cleanedAt: null,
+                },
+                reviewerId
+            );
+
+            return tx.cleanupReview.create({
+                data: {
+                    dumpReportId: id,
+                    reviewerId,
+                    outcome: 'CONTESTED',
+                    photoKey: stored?.photoKey,
+                    thumbnailKey: stored?.thumbnailKey,
+                    notes: data.notes,
+                },
+            });
+        });
+
+        if (!review) {
+            return res.status(409).json({ error: 'Cleanup was already contested' });
+        }
+
+        stored = undefined;
+
+        res.status(201).json({
+            message: 'Cleanup contested, dump reopened',
+            review,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Contest cleanup error:', error);
+        res.status(500).json({ error: 'Failed to contest cleanup' });
+    } finally {
+        if (stored) {
+            await deleteDumpPhoto(stored);
+        }
+    }
+};
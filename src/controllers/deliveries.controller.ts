@@ -0,0 +1,330 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../index';
+import { resolvePrice, resolveSplitPolicy } from '../services/pricing';
+import {
+    SettlementConflictError,
+    WeightAllocationError,
+    allocateBatchWeight,
+    settleDeclaration,
+} from '../services/settlement';
+
+// Validation schemas
+const createDeliverySchema = z.object({
+    agencyId: z.string().uuid(),
+    declarationIds: z.array(z.string().uuid()).min(1, 'At least one declaration is required'),
+    notes: z.string().optional(),
+});
+
+const validateDeliverySchema = z.object({
+    totalKg: z.number().positive('Weight must be positive'),
+    weights: z.array(z.object({
+        declarationId: z.string().uuid(),
+        confirmedKg: z.number().positive('Weight must be positive'),
+    })).optional(),
+    notes: z.string().optional(),
+});
+
+class DeliveryConflictError extends Error {}
+
+/**
+ * COLLECTOR: Drop off several picked-up declarations at an agency as one delivery
+ */
+export const createDelivery = async (req: Request, res: Response) => {
+    try {
+        const data = createDeliverySchema.parse(req.body);
+        const collectorId = req.user!.userId;
+        const declarationIds = [...new Set(data.declarationIds)];
+
+        const agency = await prisma.user.findFirst({
+            where: { id: data.agencyId, role: 'AGENCY', status: 'ACTIVE' },
+        });
+
+        if (!agency) {
+            return res.status(404).json({ error: 'Agency not found' });
+        }
+
+        const delivery = await prisma.$transaction(async (tx) => {
+            const d = await tx.delivery.create({
+                data: {
+                    collectorId,
+                    agencyId: data.agencyId,
+                    notes: data.notes,
+                },
+            });
+
+            // Attach only own, picked-up collections not already in another delivery
+            const attached = await tx.collection.updateMany({
+                where: {
+                    declarationId: { in: declarationIds },
+                    collectorId,
+                    deliveryId: null,
+                    declaration: { status: 'PICKED_UP' },
+                },
+                data: { deliveryId: d.id },
+            });
+
+            if (attached.count !== declarationIds.length) {
+                throw new DeliveryConflictError();
+            }
+
+            return tx.delivery.findUnique({
+                where: { id: d.id },
+                include: {
+                    collections: {
+                        include: {
+                            declaration: true,
+                        },
+                    },
+                },
+            });
+        });
+
+        res.status(201).json({
+            message: 'Delivery submitted successfully',
+            delivery,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        if (error instanceof DeliveryConflictError) {
+            return res.status(400).json({
+                error: 'Invalid declarations',
+                message: 'Every declaration must be PICKED_UP by you and not already part of a delivery'
+            });
+        }
+        console.error('Create delivery error:', error);
+        res.status(500).json({ error: 'Failed to create delivery' });
+    }
+};
+
+/**
+ * Get deliveries (made by a collector, or received by an agency)
+ */
+export const getDeliveries = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user!.userId;
+        const role = req.user!.role;
+        const { status } = req.query;
+
+        let where: any = {};
+
+        if (role === 'COLLECTOR') {
+            where.collectorId = userId;
+        } else {
+            where.agencyId = userId;
+        }
+
+        if (status) {
+            where.status = status;
+        }
+
+        const deliveries = await prisma.delivery.findMany({
+            where,
+            include: {
+                collector: {
+                    select: {
+                        phone: true,
+                        profile: {
+                            select: {
+                                firstName: true,
+                                lastName: true,
+                            },
+                        },
+                    },
+                },
+                collections: {
+                    select: {
+                        declarationId: true,
+                        pickedUpAt: true,
+                        declaration: {
+                            select: {
+                                material: {
+                                    select: {
+                                        code: true,
+                                        name: true,
+                                    },
+                                },
+                                estimatedKg: true,
+                                status: true,
+                                agencyConfirmation: true,
+                            },
+                        },
+                    },
+                },
+            },
+            orderBy: {
+                createdAt: 'desc',
+            },
+        });
+
+        res.json({ deliveries, count: deliveries.length });
+    } catch (error) {
+        console.error('Get deliveries error:', error);
+        res.status(500).json({ error: 'Failed to fetch deliveries' });
+    }
+};
+
+/**
+ * AGENCY: Validate a whole delivery from its weighbridge total.
+ * Weight (and therefore payouts) is allocated across the bundled declarations
+ * and every declaration is settled in a single transaction.
+ */
+export const validateDelivery = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const data = validateDeliverySchema.parse(req.body);
+        const agencyId = req.user!.userId;
+
+        const delivery = await prisma.delivery.findUnique({
+            where: { id },
+            include: {
+                collections: {
+                    include: {
+                        declaration: {
+                            include: {
+                                material: true,
+                            },
+                        },
+                    },
+                },
+            },
+        });
+
+        if (!delivery || delivery.agencyId !== agencyId) {
+            return res.status(404).json({ error: 'Delivery not found' });
+        }
+
+        if (delivery.status !== 'SUBMITTED') {
+            return res.status(400).json({
+                error: 'Invalid status',
+                message: 'Only SUBMITTED deliveries can be validated'
+            });
+        }
+
+        const declarations = delivery.collections.map(c => c.declaration);
+        const notPickedUp = declarations.filter(d => d.status !== 'PICKED_UP');
+
+        if (notPickedUp.length > 0) {
+            return res.status(400).json({
+                error: 'Invalid status',
+                message: 'Every declaration in the delivery must be PICKED_UP',
+                declarationIds: notPickedUp.map(d => d.id),
+            });
+        }
+
+        const weights = new Map((data.weights || []).map(w => [w.declarationId, w.confirmedKg]));
+        const unknown = [...weights.keys()].filter(declarationId => !declarations.some(d => d.id === declarationId));
+
+        if (unknown.length > 0) {
+            return res.status(400).json({
+                error: 'Unknown declarations',
+                message: 'Weights were given for declarations not in this delivery',
+                declarationIds: unknown,
+            });
+        }
+
+        const allocation = allocateBatchWeight(
+            data.totalKg,
+            declarations.map(d => ({
+                declarationId: d.id,
+                estimatedKg: d.estimatedKg,
+                confirmedKg: weights.get(d.id),
+            }))
+        );
+
+        // Resolve price and split in force for every declaration before writing anything
+        const now = new Date();
+        const terms = [];
+
+        for (const collection of delivery.collections) {
+            const { material } = collection.declaration;
+
+            // Unpaid materials are confirmed without a price or payment
+            if (!material.isPaid) {
+                terms.push({ collection, price: null, policy: null });
+                continue;
+            }
+
+            const price = await resolvePrice(prisma, agencyId, material.id, now);
+            const policy = await resolveSplitPolicy(prisma, agencyId, material.id, now);
+
+            if (!price || !policy) {
+                return res.status(400).json({
+                    error: price ? 'No split policy in force' : 'No price in force',
+                    message: `Publish a price and split policy covering ${material.code} before validating`
+                });
+            }
+
+            terms.push({ collection, price, policy });
+        }
+
+        const result = await prisma.$transaction(async (tx) => {
+            // Guard against validating the same delivery twice
+            const claimed = await tx.delivery.updateMany({
+                where: { id, status: 'SUBMITTED' },
+                data: {
+                    status: 'VALIDATED',
+                    totalKg: data.totalKg,
+                    validatedAt: now,
+                    ...(data.notes && { notes: data.notes }),
+                },
+            });
+
+            if (claimed.count === 0) {
+                throw new DeliveryConflictError();
+            }
+
+            const settlements = [];
+            for (const { collection, price, policy } of terms) {
+                const settlement = await settleDeclaration(tx, {
+                    declarationId: collection.declarationId,
+                    citizenId: collection.declaration.citizenId,
+                    collectorId: collection.collectorId,
+                    agencyId,
+                    confirmedKg: allocation.get(collection.declarationId)!,
+                    price,
+                    policy,
+                    notes: data.notes,
+                });
+                settlements.push({ declarationId: collection.declarationId, ...settlement });
+            }
+
+            return settlements;
+        });
+
+        const totals = result.reduce(
+            (sum, s) => ({
+                totalValue: sum.totalValue + s.breakdown.totalValue,
+                collectorAmount: sum.collectorAmount + s.breakdown.collectorAmount,
+                citizenAmount: sum.citizenAmount + s.breakdown.citizenAmount,
+                citylinkAmount: sum.citylinkAmount + s.breakdown.citylinkAmount,
+            }),
+            { totalValue: 0, collectorAmount: 0, citizenAmount: 0, citylinkAmount: 0 }
+        );
+
+        res.json({
+            message: 'Delivery validated and transactions created successfully',
+            deliveryId: id,
+            totalKg: data.totalKg,
+            declarations: result,
+            totals,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        if (error instanceof WeightAllocationError) {
+            return res.status(400).json({ error: 'Invalid weights', message: error.message });
+        }
+        if (error instanceof DeliveryConflictError) {
+            return res.status(409).json({ error: 'Delivery is already being validated' });
+        }
+        if (error instanceof SettlementConflictError) {
+            return res.status(409).json({ error: 'A declaration of this delivery was already validated' });
+        }
+        console.error('Validate delivery error:', error);
+        res.status(500).json({ error: 'Failed to validate delivery' });
+    }
+};
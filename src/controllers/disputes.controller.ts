@@ -0,0 +1,374 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../index';
+import { decodeBase64Image } from '../utils/photoHash';
+import { isUniqueViolation } from '../utils/prismaErrors';
+import {
+    HOUSE_ACCOUNTS,
+    getHouseWallet,
+    getUserWallet,
+    postJournal,
+} from '../services/ledger';
+import {
+    StoredDumpPhoto,
+    deleteDumpPhoto,
+    detectPhotoFormat,
+    signDumpPhoto,
+    storeDumpPhoto,
+} from '../services/dumpPhotos';
+
+// Validation schemas
+const openDisputeSchema = z.object({
+    reason: z.string().min(10, 'Please describe the problem (at least 10 characters)'),
+    evidencePhotoBase64: z.string().min(100).optional(), // Legacy JSON clients; prefer a multipart "evidencePhoto" file
+});
+
+// Only an adjustment carries a new weight
+const resolveDisputeSchema = z.discriminatedUnion('decision', [
+    z.object({
+        decision: z.literal('ADJUST'),
+        confirmedKg: z.number().positive('Weight must be positive'),
+        notes: z.string().optional(),
+    }),
+    z.object({
+        decision: z.literal('DISMISS'),
+        notes: z.string().optional(),
+    }),
+]);
+
+const DISPUTE_WINDOW_HOURS = parseFloat(process.env.DISPUTE_WINDOW_HOURS || '72');
+
+/**
+ * Add signed, time-limited links to a dispute's evidence photo
+ */
+async function withEvidenceUrls<T extends { evidencePhotoKey: string | null; evidenceThumbnailKey: string | null }>(dispute: T) {
+    const evidence = await signDumpPhoto({
+        photoKey: dispute.evidencePhotoKey,
+        thumbnailKey: dispute.evidenceThumbnailKey,
+    });
+
+    return {
+        ...dispute,
+        evidencePhotoUrl: evidence.photoUrl,
+        evidenceThumbnailUrl: evidence.thumbnailUrl,
+    };
+}
+
+/**
+ * CITIZEN/COLLECTOR: Dispute the weight confirmed by the agency
+ */
+export const openDispute = async (req: Request, res: Response) => {
+    let stored: StoredDumpPhoto | undefined;
+
+    try {
+        const { id } = req.params;
+        const data = openDisputeSchema.parse(req.body);
+        const userId = req.user!.userId;
+
+        const declaration = await prisma.wasteDeclaration.findUnique({
+            where: { id },
+            include: {
+                collection: true,
+                agencyConfirmation: true,
+                recyclingTransaction: true,
+                weightDispute: true,
+            },
+        });
+
+        if (!declaration) {
+            return res.status(404).json({ error: 'Declaration not found' });
+        }
+
+        const isParty =
+            declaration.citizenId === userId ||
+            declaration.collection?.collectorId === userId;
+
+        if (!isParty) {
+            return res.status(403).json({ error: 'Only the citizen or collector of this declaration can dispute it' });
+        }
+
+        if (declaration.status !== 'COMPLETED' || !declaration.agencyConfirmation) {
+            return res.status(400).json({
+                error: 'Invalid status',
+                message: 'Only COMPLETED declarations can be disputed'
+            });
+        }
+
+        if (!declaration.recyclingTransaction) {
+            return res.status(400).json({ error: 'Unpaid materials have no payment to dispute' });
+        }
+
+        if (declaration.weightDispute) {
+            return res.status(400).json({ error: 'This declaration has already been disputed' });
+        }
+
+        const deadline = new Date(
+            declaration.agencyConfirmation.confirmedAt.getTime() + DISPUTE_WINDOW_HOURS * 60 * 60 * 1000
+        );
+
+        if (new Date() > deadline) {
+            return res.status(400).json({
+                error: 'Dispute window closed',
+                message: `Disputes must be opened within ${DISPUTE_WINDOW_HOURS} hours of validation`
+            });
+        }
+
+        const photo = req.file?.buffer
+            ?? (data.evidencePhotoBase64 ? decodeBase64Image(data.evidencePhotoBase64) : undefined);
+
+        if (photo) {
+            const format = await detectPhotoFormat(photo);
+
+            if (!format) {
+                return res.status(400).json({
+                    error: 'Invalid photo format',
+                    message: 'Send a JPEG, PNG or WebP image'
+                });
+            }
+
+            stored = await storeDumpPhoto(photo, format, 'disputes');
+        }
+
+        const dispute = await prisma.$transaction(async (tx) => {
+            await tx.wasteDeclaration.update({
+                where: { id },
+                data: { status: 'DISPUTED' },
+            });
+
+            return tx.weightDispute.create({
+                data: {
+                    declarationId: id,
+                    openedById: userId,
+                    reason: data.reason,
+                    evidencePhotoKey: stored?.photoKey,
+                    evidenceThumbnailKey: stored?.thumbnailKey,
+                    originalKg: declaration.agencyConfirmation!.confirmedKg,
+                },
+            });
+        });
+
+        // The dispute is saved, so the photo is no longer an orphan
+        stored = undefined;
+
+        res.status(201).json({
+            message: 'Dispute opened successfully',
+            dispute: await withEvidenceUrls(dispute),
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        // Another party opened a dispute between the check and the create
+        if (isUniqueViolation(error, 'declarationId')) {
+            return res.status(400).json({ error: 'This declaration has already been disputed' });
+        }
+        console.error('Open dispute error:', error);
+        res.status(500).json({ error: 'Failed to open dispute' });
+    } finally {
+        if (stored) {
+            await deleteDumpPhoto(stored);
+        }
+    }
+};
+
+/**
+ * Get weight disputes (all for arbitrators, own otherwise)
+ */
+export const getDisputes = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user!.userId;
+        const role = req.user!.role;
+        const { status } = req.query;
+
+        let where: any = {};
+
+        if (role === 'CITIZEN' || role === 'COLLECTOR') {
+            where.declaration = {
+                OR: [
+                    { citizenId: userId },
+                    { collection: { collectorId: userId } },
+                ],
+            };
+        }
+
+        if (status) {
+            where.status = status;
+        }
+
+        const disputes = await prisma.weightDispute.findMany({
+            where,
+            include: {
+                declaration: {
+                    include: {
+                        agencyConfirmation: true,
+                        recyclingTransaction: true,
+                    },
+                },
+                openedBy: {
+                    select: {
+                        phone: true,
+                        role: true,
+                        profile: true,
+                    },
+                },
+            },
+            orderBy: {
+                createdAt: 'desc',
+            },
+        });
+
+        const disputesWithEvidence = await Promise.all(disputes.map(withEvidenceUrls));
+
+        res.json({ disputes: disputesWithEvidence, count: disputes.length });
+    } catch (error) {
+        console.error('Get disputes error:', error);
+        res.status(500).json({ error: 'Failed to fetch disputes' });
+    }
+};
+
+/**
+ * MUNICIPAL/ADMIN: Arbitrate a dispute, optionally adjusting the confirmed weight.
+ * Adjustments re-price the declaration with the price and split originally
+ * applied and post the difference as compensating ledger entries.
+ */
+export const resolveDispute = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const data = resolveDisputeSchema.parse(req.body);
+        const arbitratorId = req.user!.userId;
+
+        const dispute = await prisma.weightDispute.findUnique({
+            where: { id },
+            include: {
+                declaration: {
+                    include: {
+                        collection: true,
+                        agencyConfirmation: true,
+                        recyclingTransaction: true,
+                    },
+                },
+            },
+        });
+
+        if (!dispute) {
+            return res.status(404).json({ error: 'Dispute not found' });
+        }
+
+        if (dispute.status !== 'OPEN') {
+            return res.status(400).json({
+                error: 'Invalid status',
+                message: 'Only OPEN disputes can be resolved'
+            });
+        }
+
+        const { declaration } = dispute;
+        const confirmation = declaration.agencyConfirmation!;
+        const transaction = declaration.recyclingTransaction!;
+
+        let adjustment: {
+            totalDelta: number;
+            collectorDelta: number;
+            citizenDelta: number;
+            citylinkDelta: number;
+        } | null = null;
+
+        const result = await prisma.$transaction(async (tx) => {
+            // Guard against two arbitrators resolving the same dispute
+            const claimed = await tx.weightDispute.updateMany({
+                where: { id, status: 'OPEN' },
+                data: { resolvedById: arbitratorId },
+            });
+
+            if (claimed.count === 0) {
+                return null;
+            }
+
+            if (data.decision === 'ADJUST') {
+                const newTotal = data.confirmedKg * confirmation.pricePerKg;
+
+                // Keep the split that was originally applied
+                const ratio = (amount: number) =>
+                    transaction.totalAmount > 0 ? amount / transaction.totalAmount : 0;
+
+                const newCollectorAmount = newTotal * ratio(transaction.collectorAmount);
+                const newCitizenAmount = newTotal * ratio(transaction.citizenAmount);
+                const newCitylinkAmount = newTotal * ratio(transaction.citylinkAmount);
+
+                adjustment = {
+                    totalDelta: newTotal - transaction.totalAmount,
+                    collectorDelta: newCollectorAmount - transaction.collectorAmount,
+                    citizenDelta: newCitizenAmount - transaction.citizenAmount,
+                    citylinkDelta: newCitylinkAmount - transaction.citylinkAmount,
+                };
+
+                const settlementWallet = await getHouseWallet(tx, HOUSE_ACCOUNTS.SETTLEMENT);
+                const citylinkWallet = await getHouseWallet(tx, HOUSE_ACCOUNTS.CITYLINK);
+                const collectorWallet = await getUserWallet(tx, declaration.collection!.collectorId);
+                const citizenWallet = await getUserWallet(tx, declaration.citizenId);
+
+                // Reductions may take a wallet below zero if funds were already paid out
+                await postJournal(tx, {
+                    type: 'DISPUTE_ADJUSTMENT',
+                    declarationId: declaration.id,
+                    description: `Weight adjusted from ${confirmation.confirmedKg}kg to ${data.confirmedKg}kg`,
+                    postings: [
+                        { walletId: settlementWallet.id, amount: -adjustment.totalDelta },
+                        { walletId: collectorWallet.id, amount: adjustment.collectorDelta },
+                        { walletId: citizenWallet.id, amount: adjustment.citizenDelta },
+                        { walletId: citylinkWallet.id, amount: adjustment.citylinkDelta },
+                    ],
+                });
+
+                await tx.agencyConfirmation.update({
+                    where: { id: confirmation.id },
+                    data: {
+                        confirmedKg: data.confirmedKg,
+                        totalValue: newTotal,
+                    },
+                });
+
+                await tx.recyclingTransaction.update({
+                    where: { id: transaction.id },
+                    data: {
+                        totalAmount: newTotal,
+                        collectorAmount: newCollectorAmount,
+                        citizenAmount: newCitizenAmount,
+                        citylinkAmount: newCitylinkAmount,
+                    },
+                });
+            }
+
+            await tx.wasteDeclaration.update({
+                where: { id: declaration.id },
+                data: { status: 'COMPLETED' },
+            });
+
+            return tx.weightDispute.update({
+                where: { id },
+                data: {
+                    status: data.decision === 'ADJUST' ? 'RESOLVED' : 'DISMISSED',
+                    adjustedKg: data.decision === 'ADJUST' ? data.confirmedKg : null,
+                    resolvedById: arbitratorId,
+                    resolutionNotes: data.notes,
+                    resolvedAt: new Date(),
+                },
+            });
+        });
+
+        if (!result) {
+            return res.status(409).json({ error: 'Dispute is already being resolved' });
+        }
+
+        res.json({
+            message: data.decision === 'ADJUST' ? 'Dispute resolved and weight adjusted' : 'Dispute dismissed',
+            dispute: result,
+            adjustment,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Resolve dispute error:', error);
+        res.status(500).json({ error: 'Failed to resolve dispute' });
+    }
+};
@@ -1,37 +1,105 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import { prisma } from '../index';
-import { DumpSize } from '@prisma/client';
-import { generatePhotoHash, isValidBase64Image } from '../utils/photoHash';
-import { isWithinRadius } from '../utils/geoUtils';
-
-// Validation schemas
+import { DumpSize, Role } from '@prisma/client';
+import { decodeBase64Image, generatePerceptualHash, generatePhotoHash } from '../utils/photoHash';
+import {
+    PHOTO_DUPLICATE_FLAG_DISTANCE,
+    PHOTO_DUPLICATE_REJECT_DISTANCE,
+    findSimilarPhotos,
+    perceptualHashBands,
+} from '../services/photoSimilarity';
+import {
+    StoredDumpPhoto,
+    deleteDumpPhoto,
+    detectPhotoFormat,
+    signDumpPhoto,
+    storeDumpPhoto,
+} from '../services/dumpPhotos';
+import { extractPhotoMetadata } from '../utils/photoExif';
+import { isUniqueViolation } from '../utils/prismaErrors';
+import { PHOTO_EXIF_MODE, checkPhotoMetadata } from '../services/photoMetadataCheck';
+import { calculateDistance, getBoundingBox, isWithinRadius } from '../utils/geoUtils';
+import { GEO_CLUSTER_RADIUS, dumpGeohash, dumpsInBox } from '../services/dumpGeo';
+import { addVerification, verifyIfCorroborated } from '../services/dumpVerification';
+import { attachToSite } from '../services/dumpSites';
+import { getReputationTier, getVerificationWeight } from '../services/reputation';
+
+// Validation schemas (coerced: multipart form fields arrive as strings)
 const reportDumpSchema = z.object({
-    latitude: z.number().min(-90).max(90),
-    longitude: z.number().min(-180).max(180),
-    photoBase64: z.string().min(100, 'Photo data is required'),
+    latitude: z.coerce.number().min(-90).max(90),
+    longitude: z.coerce.number().min(-180).max(180),
+    photoBase64: z.string().min(100).optional(), // Legacy JSON clients; prefer a multipart "photo" file
     size: z.enum(['SMALL', 'MEDIUM', 'LARGE']),
     description: z.string().optional(),
 });
 
-const GEO_CLUSTER_RADIUS = parseFloat(process.env.GEO_CLUSTER_RADIUS || '100'); // meters
-const REPUTATION_PER_VERIFIED = parseInt(process.env.REPUTATION_PER_VERIFIED_DUMP || '10');
+const nearbyDumpsSchema = z.object({
+    lat: z.coerce.number().min(-90).max(90),
+    lng: z.coerce.number().min(-180).max(180),
+    radius: z.coerce.number().positive().max(50000).optional(),
+    status: z.enum(['UNVERIFIED', 'VERIFIED', 'SCHEDULED', 'IN_PROGRESS', 'CLEANED', 'FALSE_REPORT']).optional(),
+    limit: z.coerce.number().int().positive().max(200).optional(),
+});
+
+const NEARBY_DEFAULT_RADIUS = parseFloat(process.env.NEARBY_DEFAULT_RADIUS || '5000'); // meters
+const NEARBY_MAX_CANDIDATES = parseInt(process.env.NEARBY_MAX_CANDIDATES || '500');
+
+const PHOTO_ALREADY_USED = {
+    error: 'Photo already used',
+    message: 'This photo has already been submitted. Please take a new photo.',
+};
+
+/**
+ * Fields to blank out of a report for users who don't moderate reports:
+ * the EXIF position of a photo can reveal where its reporter lives
+ */
+function hiddenPhotoMetadata(role: Role) {
+    return role === 'MUNICIPAL'
+        ? {}
+        : { photoTakenAt: undefined, photoLatitude: undefined, photoLongitude: undefined, photoCamera: undefined };
+}
 
 /**
  * Submit a dump report (with photo)
  */
 export const reportDump = async (req: Request, res: Response) => {
+    let stored: StoredDumpPhoto | undefined;
+
     try {
         const data = reportDumpSchema.parse(req.body);
         const reporterId = req.user!.userId;
 
+        const photo = req.file?.buffer
+            ?? (data.photoBase64 ? decodeBase64Image(data.photoBase64) : undefined);
+
+        if (!photo) {
+            return res.status(400).json({ error: 'Photo is required' });
+        }
+
         // Validate photo format
-        if (!isValidBase64Image(data.photoBase64)) {
-            return res.status(400).json({ error: 'Invalid photo format' });
+        const format = await detectPhotoFormat(photo);
+
+        if (!format) {
+            return res.status(400).json({
+                error: 'Invalid photo format',
+                message: 'Send a JPEG, PNG or WebP image'
+            });
+        }
+
+        // Photos without EXIF (stripped by many apps) pass; only contradicting metadata counts
+        const metadata = await extractPhotoMetadata(photo);
+        const exifCheck = checkPhotoMetadata(metadata, data.latitude, data.longitude);
+
+        if (exifCheck.issues.length > 0 && PHOTO_EXIF_MODE === 'reject') {
+            return res.status(400).json({
+                error: 'Photo does not match report',
+                message: exifCheck.issues.join('; ')
+            });
         }
 
-        // Generate photo hash
-        const photoHash = generatePhotoHash(data.photoBase64);
+        // Generate photo hash (over base64, matching hashes stored before uploads)
+        const photoHash = generatePhotoHash(photo.toString('base64'));
 
         // Check if photo has been used before
         const existingPhoto = await prisma.photoHash.findUnique({
@@ -39,18 +107,40 @@ export const reportDump = async (req: Request, res: Response) => {
         });
 
         if (existingPhoto) {
+            return res.status(400).json(PHOTO_ALREADY_USED);
+        }
+
+        // Catch re-encoded, resized or lightly edited copies of earlier photos
+        let perceptualHash: string | null;
+        try {
+            perceptualHash = await generatePerceptualHash(photo);
+        } catch {
+            return res.status(400).json({ error: 'Invalid photo format' });
+        }
+
+        const similarPhotos = perceptualHash
+            ? await findSimilarPhotos(prisma, perceptualHash, PHOTO_DUPLICATE_FLAG_DISTANCE)
+            : [];
+        const closest = similarPhotos[0];
+
+        if (closest && closest.distance <= PHOTO_DUPLICATE_REJECT_DISTANCE) {
             return res.status(400).json({
                 error: 'Photo already used',
-                message: 'This photo has already been submitted. Please take a new photo.'
+                message: 'A near-identical photo has already been submitted. Please take a new photo.'
             });
         }
 
+        stored = await storeDumpPhoto(photo, format);
+        const { photoKey, thumbnailKey } = stored;
+
         // Create dump report and photo hash record
         const report = await prisma.$transaction(async (tx) => {
             // Store photo hash
             await tx.photoHash.create({
                 data: {
                     hash: photoHash,
+                    perceptualHash,
+                    ...(perceptualHash && perceptualHashBands(perceptualHash)),
                     uploadedBy: reporterId,
                 },
             });
@@ -61,7 +151,14 @@ export const reportDump = async (req: Request, res: Response) => {
                     reporterId,
                     latitude: data.latitude,
                     longitude: data.longitude,
-                    photoUrl: data.photoBase64, // In production, upload to object storage
+                    geohash: dumpGeohash(data.latitude, data.longitude),
+                    photoKey,
+                    thumbnailKey,
+                    photoTakenAt: metadata.takenAt,
+                    photoLatitude: metadata.latitude,
+                    photoLongitude: metadata.longitude,
+                    photoDistance: exifCheck.distance,
+                    photoCamera: metadata.camera,
                     photoHash,
                     size: data.size as DumpSize,
                     description: data.description,
@@ -82,28 +179,51 @@ export const reportDump = async (req: Request, res: Response) => {
                 },
             });
 
-            // Create verification record for the reporter (self)
-            await tx.dumpVerification.create({
-                data: {
-                    dumpReportId: dumpReport.id,
-                    verifierId: reporterId,
-                },
-            });
+            // Similar but not identical photo: accept, but send it to moderation
+            if (closest) {
+                await tx.reportFlag.create({
+                    data: {
+                        dumpReportId: dumpReport.id,
+                        reason: 'DUPLICATE_PHOTO',
+                        notes: closest.dumpReportId
+                            ? `Photo similar to report ${closest.dumpReportId} (distance ${closest.distance}/64)`
+                            : `Photo similar to an earlier upload (distance ${closest.distance}/64)`,
+                    },
+                });
+            }
+
+            // Location or time contradicted by the photo (flag mode)
+            if (exifCheck.issues.length > 0) {
+                await tx.reportFlag.create({
+                    data: {
+                        dumpReportId: dumpReport.id,
+                        reason: 'FAKE_LOCATION',
+                        notes: exifCheck.issues.join('; '),
+                    },
+                });
+            }
 
-            // Check for nearby reports from OTHER users
-            const nearbyReports = await tx.dumpReport.findMany({
+            // Group with earlier reports of the same physical dump
+            await attachToSite(tx, dumpReport);
+
+            // Reports from OTHER users within the cluster radius. attachToSite locked the
+            // area: a concurrent report nearby has either committed and is found here, or
+            // waits for this one and will find it.
+            const clusterCandidates = await tx.dumpReport.findMany({
                 where: {
-                    id: { not: dumpReport.id },
-                    reporterId: { not: reporterId }, // Different user
-                    status: { in: ['UNVERIFIED', 'VERIFIED'] },
+                    ...dumpsInBox(getBoundingBox(data.latitude, data.longitude, GEO_CLUSTER_RADIUS)),
+                    reporterId: { not: reporterId },
+                    status: { in: ['UNVERIFIED', 'VERIFIED', 'SCHEDULED', 'IN_PROGRESS'] },
                 },
-                include: {
-                    verifications: true,
+                select: {
+                    id: true,
+                    reporterId: true,
+                    latitude: true,
+                    longitude: true,
                 },
             });
 
-            // Find reports within geo-cluster radius
-            const clusteredReports = nearbyReports.filter(r =>
+            const clusteredReports = clusterCandidates.filter(r =>
                 isWithinRadius(
                     data.latitude,
                     data.longitude,
@@ -113,108 +233,37 @@ export const reportDump = async (req: Request, res: Response) => {
                 )
             );
 
-            // If we find nearby reports, verify them
-            if (clusteredReports.length > 0) {
-                // Add verification to nearby reports
-                for (const nearbyReport of clusteredReports) {
-                    // Check if already verified by this user
-                    const alreadyVerified = nearbyReport.verifications.some(
-                        v => v.verifierId === reporterId
-                    );
-
-                    if (!alreadyVerified) {
-                        await tx.dumpVerification.create({
-                            data: {
-                                dumpReportId: nearbyReport.id,
-                                verifierId: reporterId,
-                            },
-                        });
-
-                        // Count verifications
-                        const verificationCount = await tx.dumpVerification.count({
-                            where: { dumpReportId: nearbyReport.id },
-                        });
-
-                        // If ≥2 verifications, mark as VERIFIED
-                        if (verificationCount >= 2 && nearbyReport.status === 'UNVERIFIED') {
-                            await tx.dumpReport.update({
-                                where: { id: nearbyReport.id },
-                                data: { status: 'VERIFIED' },
-                            });
-
-                            // Award reputation to all verifiers
-                            const verifiers = await tx.dumpVerification.findMany({
-                                where: { dumpReportId: nearbyReport.id },
-                                select: { verifierId: true },
-                            });
-
-                            for (const verifier of verifiers) {
-                                await tx.reputationScore.upsert({
-                                    where: { userId: verifier.verifierId },
-                                    create: {
-                                        userId: verifier.verifierId,
-                                        score: REPUTATION_PER_VERIFIED,
-                                        verifiedReports: 1,
-                                    },
-                                    update: {
-                                        score: { increment: REPUTATION_PER_VERIFIED },
-                                        verifiedReports: { increment: 1 },
-                                    },
-                                });
-                            }
-                        }
-                    }
-                }
-
-                // Now check if CURRENT report can be verified
-                // Add verifications from nearby report creators
-                for (const nearbyReport of clusteredReports) {
-                    await tx.dumpVerification.create({
-                        data: {
-                            dumpReportId: dumpReport.id,
-                            verifierId: nearbyReport.reporterId,
-                        },
-                    });
-                }
+            // Create verification record for the reporter (self)
+            await addVerification(tx, {
+                dumpReportId: dumpReport.id,
+                verifierId: reporterId,
+            });
 
-                // Count verifications for current report
-                const currentVerificationCount = await tx.dumpVerification.count({
-                    where: { dumpReportId: dumpReport.id },
+            // Nearby reports by other users corroborate each other
+            for (const nearbyReport of clusteredReports) {
+                const added = await addVerification(tx, {
+                    dumpReportId: nearbyReport.id,
+                    verifierId: reporterId,
                 });
 
-                // If ≥2 verifications, mark as VERIFIED
-                if (currentVerificationCount >= 2) {
-                    await tx.dumpReport.update({
-                        where: { id: dumpReport.id },
-                        data: { status: 'VERIFIED' },
-                    });
-
-                    // Award reputation to all verifiers
-                    const verifiers = await tx.dumpVerification.findMany({
-                        where: { dumpReportId: dumpReport.id },
-                        select: { verifierId: true },
-                    });
-
-                    for (const verifier of verifiers) {
-                        await tx.reputationScore.upsert({
-                            where: { userId: verifier.verifierId },
-                            create: {
-                                userId: verifier.verifierId,
-                                score: REPUTATION_PER_VERIFIED,
-                                verifiedReports: 1,
-                            },
-                            update: {
-                                score: { increment: REPUTATION_PER_VERIFIED },
-                                verifiedReports: { increment: 1 },
-                            },
-                        });
-                    }
+                if (added) {
+                    await verifyIfCorroborated(tx, nearbyReport.id, 'Corroborated by a nearby report');
                 }
+
+                await addVerification(tx, {
+                    dumpReportId: dumpReport.id,
+                    verifierId: nearbyReport.reporterId,
+                });
             }
 
+            await verifyIfCorroborated(tx, dumpReport.id, 'Corroborated by a nearby report');
+
             return dumpReport;
         });
 
+        // The report is saved, so the photo is no longer an orphan
+        stored = undefined;
+
         // Fetch updated report with verification count
         const updatedReport = await prisma.dumpReport.findUnique({
             where: { id: report.id },
@@ -225,6 +274,7 @@ export const reportDump = async (req: Request, res: Response) => {
                         profile: true,
                     },
                 },
+                site: true,
                 verifications: {
                     include: {
                         verifier: {
@@ -240,16 +290,29 @@ export const reportDump = async (req: Request, res: Response) => {
 
         res.status(201).json({
             message: 'Dump report submitted successfully',
-            report: updatedReport,
+            report: updatedReport && {
+                ...updatedReport,
+                ...await signDumpPhoto(updatedReport),
+            },
             verificationCount: updatedReport?.verifications.length || 0,
             isVerified: updatedReport?.status === 'VERIFIED',
+            flaggedAsDuplicate: !!closest,
+            flaggedAsFakeLocation: exifCheck.issues.length > 0,
         });
     } catch (error) {
         if (error instanceof z.ZodError) {
             return res.status(400).json({ error: 'Validation failed', details: error.errors });
         }
+        // The same photo was submitted concurrently, after the check above
+        if (isUniqueViolation(error, 'hash')) {
+            return res.status(400).json(PHOTO_ALREADY_USED);
+        }
         console.error('Report dump error:', error);
         res.status(500).json({ error: 'Failed to submit report' });
+    } finally {
+        if (stored) {
+            await deleteDumpPhoto(stored);
+        }
     }
 };
 
@@ -308,13 +371,19 @@ export const getDumps = async (req: Request, res: Response) => {
             },
         });
 
-        // Remove photo data for list view (too large)
-        const dumpsWithoutPhotos = dumps.map(d => ({
-            ...d,
-            photoUrl: `[${d.photoUrl.length} bytes]`,
+        // List view gets thumbnails; full photos come from GET /api/dumps/:id/photo
+        const dumpsWithThumbnails = await Promise.all(dumps.map(async d => {
+            const { thumbnailUrl } = await signDumpPhoto(d);
+
+            return {
+                ...d,
+                ...hiddenPhotoMetadata(req.user!.role),
+                photoUrl: d.photoUrl ? `[${d.photoUrl.length} bytes]` : null,
+                thumbnailUrl,
+            };
         }));
 
-        res.json({ dumps: dumpsWithoutPhotos, count: dumps.length });
+        res.json({ dumps: dumpsWithThumbnails, count: dumps.length });
     } catch (error) {
         console.error('Get dumps error:', error);
         res.status(500).json({ error: 'Failed to fetch dumps' });
@@ -322,7 +391,81 @@ export const getDumps = async (req: Request, res: Response) => {
 };
 
 /**
- * Get single dump report with full details (including photo)
+ * Get dump reports around a location, nearest first
+ * Pre-filters on the indexed geohash cells covering the radius,
+ * then applies the exact distance. At most NEARBY_MAX_CANDIDATES of the most
+ * recent reports in the cells are considered.
+ */
+export const getNearbyDumps = async (req: Request, res: Response) => {
+    try {
+        const query = nearbyDumpsSchema.parse(req.query);
+        const radius = query.radius || NEARBY_DEFAULT_RADIUS;
+
+        const candidates = await prisma.dumpReport.findMany({
+            where: {
+                ...dumpsInBox(getBoundingBox(query.lat, query.lng, radius)),
+                ...(query.status && { status: query.status }),
+            },
+            include: {
+                reporter: {
+                    select: {
+                        phone: true,
+                        profile: {
+                            select: {
+                                firstName: true,
+                                lastName: true,
+                            },
+                        },
+                    },
+                },
+                _count: {
+                    select: {
+                        verifications: true,
+                    },
+                },
+            },
+            orderBy: { createdAt: 'desc' },
+            take: NEARBY_MAX_CANDIDATES,
+        });
+
+        const nearby = candidates
+            .map(d => ({
+                ...d,
+                distance: Math.round(calculateDistance(query.lat, query.lng, d.latitude, d.longitude)),
+            }))
+            .filter(d => d.distance <= radius)
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, query.limit || 50);
+
+        const dumps = await Promise.all(nearby.map(async d => {
+            const { thumbnailUrl } = await signDumpPhoto(d);
+
+            return {
+                ...d,
+                ...hiddenPhotoMetadata(req.user!.role),
+                photoUrl: d.photoUrl ? `[${d.photoUrl.length} bytes]` : null,
+                thumbnailUrl,
+            };
+        }));
+
+        res.json({
+            dumps,
+            count: dumps.length,
+            radius,
+            // The box held more reports than were scanned: narrow the radius to see them all
+            truncated: candidates.length === NEARBY_MAX_CANDIDATES,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Get nearby dumps error:', error);
+        res.status(500).json({ error: 'Failed to fetch nearby dumps' });
+    }
+};
+
+/**
+ * Get single dump report with full details (including photos and status history)
  */
 export const getDumpById = async (req: Request, res: Response) => {
     try {
@@ -337,6 +480,7 @@ export const getDumpById = async (req: Request, res: Response) => {
                         profile: true,
                     },
                 },
+                site: true,
                 verifications: {
                     include: {
                         verifier: {
@@ -357,6 +501,43 @@ export const getDumpById = async (req: Request, res: Response) => {
                         },
                     },
                 },
+                // The after photo is returned once, as afterPhotoUrl
+                cleanupChange: {
+                    select: { photoKey: true, thumbnailKey: true },
+                },
+                statusHistory: {
+                    select: {
+                        id: true,
+                        fromStatus: true,
+                        toStatus: true,
+                        changedById: true,
+                        notes: true,
+                        createdAt: true,
+                        changedBy: {
+                            select: {
+                                phone: true,
+                                role: true,
+                                profile: true,
+                            },
+                        },
+                    },
+                    orderBy: {
+                        createdAt: 'asc',
+                    },
+                },
+                cleanupReviews: {
+                    include: {
+                        reviewer: {
+                            select: {
+                                phone: true,
+                                profile: true,
+                            },
+                        },
+                    },
+                    orderBy: {
+                        createdAt: 'asc',
+                    },
+                },
             },
         });
 
@@ -364,7 +545,35 @@ export const getDumpById = async (req: Request, res: Response) => {
             return res.status(404).json({ error: 'Dump report not found' });
         }
 
-        res.json({ dump });
+        // Reports not yet moved to storage keep their inline photo
+        const photo = await signDumpPhoto(dump);
+
+        // On-site confirmations may carry their own photo
+        const verifications = await Promise.all(dump.verifications.map(async v => ({
+            ...v,
+            ...(v.photoKey && await signDumpPhoto(v)),
+        })));
+
+        const { cleanupChange, ...details } = dump;
+        const afterPhoto = cleanupChange?.photoKey ? await signDumpPhoto(cleanupChange) : null;
+
+        const cleanupReviews = await Promise.all(dump.cleanupReviews.map(async r => ({
+            ...r,
+            ...(r.photoKey && await signDumpPhoto(r)),
+        })));
+
+        res.json({
+            dump: {
+                ...details,
+                ...hiddenPhotoMetadata(req.user!.role),
+                ...photo,
+                photoUrl: photo.photoUrl ?? dump.photoUrl,
+                afterPhotoUrl: afterPhoto?.photoUrl ?? null,
+                afterThumbnailUrl: afterPhoto?.thumbnailUrl ?? null,
+                verifications,
+                cleanupReviews,
+            },
+        });
     } catch (error) {
         console.error('Get dump by ID error:', error);
         res.status(500).json({ error: 'Failed to fetch dump report' });
@@ -372,26 +581,74 @@ export const getDumpById = async (req: Request, res: Response) => {
 };
 
 /**
- * Get user reputation score
+ * Get signed, time-limited URLs for a dump report's photo
+ */
+export const getDumpPhoto = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const dump = await prisma.dumpReport.findUnique({
+            where: { id },
+            select: {
+                photoUrl: true,
+                photoKey: true,
+                thumbnailKey: true,
+            },
+        });
+
+        if (!dump) {
+            return res.status(404).json({ error: 'Dump report not found' });
+        }
+
+        if (!dump.photoKey) {
+            // Legacy report: the photo is still stored inline
+            return res.json({
+                photoUrl: dump.photoUrl,
+                thumbnailUrl: null,
+                expiresAt: null,
+            });
+        }
+
+        res.json(await signDumpPhoto(dump));
+    } catch (error) {
+        console.error('Get dump photo error:', error);
+        res.status(500).json({ error: 'Failed to fetch dump photo' });
+    }
+};
+
+/**
+ * Get user reputation score, tier and current verification weight
  */
 export const getUserReputation = async (req: Request, res: Response) => {
     try {
         const userId = req.user!.userId;
 
-        const reputation = await prisma.reputationScore.findUnique({
-            where: { userId },
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: {
+                createdAt: true,
+                reputationScore: true,
+            },
         });
 
+        const reputation = user?.reputationScore;
+        const score = reputation?.score ?? 0;
+        const standing = {
+            ...getReputationTier(score),
+            verificationWeight: user ? getVerificationWeight(score, user.createdAt) : 0,
+        };
+
         if (!reputation) {
             return res.json({
                 score: 0,
                 verifiedReports: 0,
                 falseReports: 0,
+                ...standing,
                 message: 'No reputation score found',
             });
         }
 
-        res.json({ reputation });
+        res.json({ reputation: { ...reputation, ...standing } });
     } catch (error) {
         console.error('Get reputation error:', error);
         res.status(500).json({ error: 'Failed to fetch reputation' });
@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../index';
+import { getReputationTier } from '../services/reputation';
+
+// Rolling windows, in days; ALL_TIME ranks by the current score instead
+const LEADERBOARD_PERIODS = {
+    WEEKLY: 7,
+    MONTHLY: 30,
+    ALL_TIME: null,
+} as const;
+
+// Validation schemas
+const leaderboardQuerySchema = z.object({
+    period: z.enum(['WEEKLY', 'MONTHLY', 'ALL_TIME']).default('WEEKLY'),
+    city: z.string().trim().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * Public name of a reporter: first name and last initial, never the phone number
+ */
+function displayName(profile: { firstName: string | null; lastName: string | null } | null): string {
+    if (!profile?.firstName) {
+        return 'Anonymous reporter';
+    }
+
+    return profile.lastName
+        ? `${profile.firstName} ${profile.lastName.charAt(0).toUpperCase()}.`
+        : profile.firstName;
+}
+
+/**
+ * Get the top reporters, by points earned over a period or by overall score
+ */
+export const getLeaderboard = async (req: Request, res: Response) => {
+    try {
+        const query = leaderboardQuerySchema.parse(req.query);
+        const days = LEADERBOARD_PERIODS[query.period];
+
+        const userWhere = query.city
+            ? { profile: { city: { equals: query.city, mode: 'insensitive' as const } } }
+            : {};
+
+        let ranked: { userId: string; points: number }[];
+
+        if (days === null) {
+            const scores = await prisma.reputationScore.findMany({
+                where: {
+                    score: { gt: 0 },
+                    user: userWhere,
+                },
+                select: { userId: true, score: true },
+                orderBy: [{ score: 'desc' }, { verifiedReports: 'desc' }],
+                take: query.limit,
+            });
+
+            ranked = scores.map(s => ({ userId: s.userId, points: s.score }));
+        } else {
+            const since = new Date(Date.now() - days * 86400000);
+
+            const totals = await prisma.reputationEvent.groupBy({
+                by: ['userId'],
+                where: {
+                    createdAt: { gte: since },
+                    user: userWhere,
+                },
+                _sum: { points: true },
+                having: {
+                    points: { _sum: { gt: 0 } },
+                },
+                orderBy: {
+                    _sum: { points: 'desc' },
+                },
+                take: query.limit,
+            });
+
+            ranked = totals.map(t => ({ userId: t.userId, points: t._sum.points ?? 0 }));
+        }
+
+        const users = await prisma.user.findMany({
+            where: { id: { in: ranked.map(r => r.userId) } },
+            select: {
+                id: true,
+                profile: {
+                    select: {
+                        firstName: true,
+                        lastName: true,
+                        city: true,
+                    },
+                },
+                reputationScore: {
+                    select: {
+                        score: true,
+                        verifiedReports: true,
+                    },
+                },
+                _count: {
+                    select: { badges: true },
+                },
+            },
+        });
+        const usersById = new Map(users.map(u => [u.id, u]));
+
+        const leaderboard = ranked.map((r, index) => {
+            const user = usersById.get(r.userId);
+
+            return {
+                rank: index + 1,
+                displayName: displayName(user?.profile ?? null),
+                city: user?.profile?.city ?? null,
+                points: r.points,
+                tier: getReputationTier(user?.reputationScore?.score ?? 0).tier,
+                verifiedReports: user?.reputationScore?.verifiedReports ?? 0,
+                badgeCount: user?._count.badges ?? 0,
+                isCurrentUser: r.userId === req.user!.userId,
+            };
+        });
+
+        res.json({
+            period: query.period,
+            city: query.city ?? null,
+            leaderboard,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Get leaderboard error:', error);
+        res.status(500).json({ error: 'Failed to fetch leaderboard' });
+    }
+};
@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../index';
+
+// Validation schemas
+const createMaterialSchema = z.object({
+    code: z.string().trim().toUpperCase().regex(/^[A-Z0-9_]+$/, 'Code must be letters, digits or underscores'),
+    name: z.string().trim().min(1),
+    nameFr: z.string().trim().min(1).optional(),
+    unit: z.string().trim().min(1).optional(),
+    isPaid: z.boolean().optional(),
+});
+
+// The code is what clients send, so it never changes once created
+const updateMaterialSchema = z.object({
+    name: z.string().trim().min(1).optional(),
+    nameFr: z.string().trim().min(1).nullable().optional(),
+    unit: z.string().trim().min(1).optional(),
+    isPaid: z.boolean().optional(),
+    isActive: z.boolean().optional(),
+});
+
+/**
+ * Get the material catalog (active materials; managers may include inactive ones)
+ */
+export const getMaterials = async (req: Request, res: Response) => {
+    try {
+        const includeInactive =
+            req.user!.role === 'ADMIN' && req.query.includeInactive === 'true';
+
+        const materials = await prisma.material.findMany({
+            where: includeInactive ? {} : { isActive: true },
+            orderBy: {
+                code: 'asc',
+            },
+        });
+
+        res.json({ materials, count: materials.length });
+    } catch (error) {
+        console.error('Get materials error:', error);
+        res.status(500).json({ error: 'Failed to fetch materials' });
+    }
+};
+
+/**
+ * ADMIN: Add a material to the catalog
+ */
+export const createMaterial = async (req: Request, res: Response) => {
+    try {
+        const data = createMaterialSchema.parse(req.body);
+
+        const existing = await prisma.material.findUnique({
+            where: { code: data.code },
+        });
+
+        if (existing) {
+            return res.status(400).json({ error: 'Material code already exists' });
+        }
+
+        const material = await prisma.material.create({
+            data: {
+                code: data.code,
+                name: data.name,
+                nameFr: data.nameFr,
+                unit: data.unit,
+                isPaid: data.isPaid,
+            },
+        });
+
+        res.status(201).json({
+            message: 'Material created successfully',
+            material,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Create material error:', error);
+        res.status(500).json({ error: 'Failed to create material' });
+    }
+};
+
+/**
+ * ADMIN: Rename, re-classify or (de)activate a material.
+ * Deactivating stops new declarations and prices; existing ones keep their material.
+ */
+export const updateMaterial = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const data = updateMaterialSchema.parse(req.body);
+
+        const existing = await prisma.material.findUnique({
+            where: { id },
+        });
+
+        if (!existing) {
+            return res.status(404).json({ error: 'Material not found' });
+        }
+
+        const material = await prisma.material.update({
+            where: { id },
+            data,
+        });
+
+        res.json({
+            message: 'Material updated successfully',
+            material,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Update material error:', error);
+        res.status(500).json({ error: 'Failed to update material' });
+    }
+};
@@ -0,0 +1,233 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../index';
+import { FlagReason } from '@prisma/client';
+import { refreshSiteOf } from '../services/dumpSites';
+import { REPUTATION_PENALTY_FALSE_REPORT, penalizeFalseReport } from '../services/reputation';
+import { isUniqueViolation } from '../utils/prismaErrors';
+
+// Validation schemas
+const flagReportSchema = z.object({
+    reason: z.enum(['DUPLICATE_PHOTO', 'FAKE_LOCATION', 'SPAM', 'OTHER']),
+    notes: z.string().optional(),
+}).refine(
+    data => data.reason !== 'OTHER' || data.notes,
+    { message: 'Please describe the problem when the reason is OTHER' }
+);
+
+const moderateSchema = z.object({
+    decision: z.enum(['FALSE_REPORT', 'DISMISS']),
+    notes: z.string().optional(),
+});
+
+/**
+ * Flag a dump report as suspicious
+ */
+export const flagReport = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const data = flagReportSchema.parse(req.body);
+        const userId = req.user!.userId;
+
+        const dump = await prisma.dumpReport.findUnique({
+            where: { id },
+        });
+
+        if (!dump) {
+            return res.status(404).json({ error: 'Dump report not found' });
+        }
+
+        if (dump.reporterId === userId) {
+            return res.status(400).json({ error: 'You cannot flag your own report' });
+        }
+
+        if (dump.status === 'FALSE_REPORT') {
+            return res.status(400).json({ error: 'This report has already been rejected' });
+        }
+
+        const existing = await prisma.reportFlag.findUnique({
+            where: {
+                dumpReportId_flaggedById: {
+                    dumpReportId: id,
+                    flaggedById: userId,
+                },
+            },
+        });
+
+        if (existing) {
+            return res.status(400).json({ error: 'You have already flagged this report' });
+        }
+
+        const flag = await prisma.reportFlag.create({
+            data: {
+                dumpReportId: id,
+                flaggedById: userId,
+                reason: data.reason as FlagReason,
+                notes: data.notes,
+            },
+        });
+
+        res.status(201).json({
+            message: 'Report flagged for moderation',
+            flag,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        // The same user flagged the report concurrently, after the check above
+        if (isUniqueViolation(error, 'flaggedById')) {
+            return res.status(400).json({ error: 'You have already flagged this report' });
+        }
+        console.error('Flag report error:', error);
+        res.status(500).json({ error: 'Failed to flag report' });
+    }
+};
+
+/**
+ * MUNICIPAL: Get reports with open flags, most flagged first
+ */
+export const getModerationQueue = async (req: Request, res: Response) => {
+    try {
+        const { reason } = req.query;
+
+        const openFlags: any = { status: 'OPEN' };
+
+        if (reason) {
+            openFlags.reason = reason;
+        }
+
+        const dumps = await prisma.dumpReport.findMany({
+            where: {
+                flags: { some: openFlags },
+            },
+            include: {
+                reporter: {
+                    select: {
+                        phone: true,
+                        profile: {
+                            select: {
+                                firstName: true,
+                                lastName: true,
+                            },
+                        },
+                        reputationScore: true,
+                    },
+                },
+                flags: {
+                    where: { status: 'OPEN' },
+                    include: {
+                        flaggedBy: {
+                            select: {
+                                phone: true,
+                                role: true,
+                            },
+                        },
+                    },
+                    orderBy: {
+                        createdAt: 'asc',
+                    },
+                },
+            },
+        });
+
+        // Most flagged first, then the longest waiting
+        const queue = dumps
+            .map(d => ({
+                ...d,
+                photoUrl: d.photoUrl ? `[${d.photoUrl.length} bytes]` : null,
+                flagCount: d.flags.length,
+                firstFlaggedAt: d.flags[0].createdAt,
+            }))
+            .sort((a, b) =>
+                b.flagCount - a.flagCount ||
+                a.firstFlaggedAt.getTime() - b.firstFlaggedAt.getTime()
+            );
+
+        res.json({ queue, count: queue.length });
+    } catch (error) {
+        console.error('Get moderation queue error:', error);
+        res.status(500).json({ error: 'Failed to fetch moderation queue' });
+    }
+};
+
+/**
+ * MUNICIPAL: Decide on a flagged report.
+ * FALSE_REPORT rejects the report and penalizes its reporter; DISMISS clears the flags.
+ */
+export const moderateReport = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const data = moderateSchema.parse(req.body);
+        const moderatorId = req.user!.userId;
+
+        const dump = await prisma.dumpReport.findUnique({
+            where: { id },
+        });
+
+        if (!dump) {
+            return res.status(404).json({ error: 'Dump report not found' });
+        }
+
+        const result = await prisma.$transaction(async (tx) => {
+            // Guard against two moderators deciding the same flags
+            const reviewed = await tx.reportFlag.updateMany({
+                where: { dumpReportId: id, status: 'OPEN' },
+                data: {
+                    status: data.decision === 'FALSE_REPORT' ? 'UPHELD' : 'DISMISSED',
+                    reviewedById: moderatorId,
+                    reviewedAt: new Date(),
+                },
+            });
+
+            if (reviewed.count === 0) {
+                return null;
+            }
+
+            if (data.decision === 'FALSE_REPORT') {
+                await tx.dumpReport.update({
+                    where: { id },
+                    data: { status: 'FALSE_REPORT' },
+                });
+
+                await tx.dumpStatusChange.create({
+                    data: {
+                        dumpReportId: id,
+                        fromStatus: dump.status,
+                        toStatus: 'FALSE_REPORT',
+                        changedById: moderatorId,
+                        notes: data.notes,
+                    },
+                });
+
+                // A false report no longer counts towards its site
+                await refreshSiteOf(tx, id);
+
+                await penalizeFalseReport(tx, dump.reporterId, id);
+            }
+
+            return { flagsReviewed: reviewed.count };
+        });
+
+        if (!result) {
+            return res.status(409).json({
+                error: 'No open flags',
+                message: 'This report has no open flags or was just moderated'
+            });
+        }
+
+        res.json({
+            message: data.decision === 'FALSE_REPORT'
+                ? 'Report marked false and reporter penalized'
+                : 'Flags dismissed',
+            ...result,
+            ...(data.decision === 'FALSE_REPORT' && { penalty: REPUTATION_PENALTY_FALSE_REPORT }),
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Moderate report error:', error);
+        res.status(500).json({ error: 'Failed to moderate report' });
+    }
+};
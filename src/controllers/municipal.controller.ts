@@ -1,57 +1,67 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
+import { DumpStatus } from '@prisma/client';
+import { sitesInBox } from '../services/dumpGeo';
+
+// Verified dumps that are still on the ground
+const OPEN_DUMP_STATUSES: DumpStatus[] = ['VERIFIED', 'SCHEDULED', 'IN_PROGRESS'];
 
 /**
- * Get heatmap data for verified dumps
+ * Get heatmap data for verified dump sites, optionally limited to the visible map area.
+ * Each physical dump counts once, however many times it was reported.
  */
 export const getHeatmap = async (req: Request, res: Response) => {
     try {
-        const { startDate, endDate } = req.query;
+        const { startDate, endDate, minLat, maxLat, minLng, maxLng } = req.query;
 
         let where: any = {
-            status: 'VERIFIED',
+            status: { in: OPEN_DUMP_STATUSES },
         };
 
-        // Filter by date range if provided
+        // Filter by bounding box if provided
+        if (minLat || maxLat || minLng || maxLng) {
+            const box = {
+                minLat: parseFloat(minLat as string),
+                maxLat: parseFloat(maxLat as string),
+                minLng: parseFloat(minLng as string),
+                maxLng: parseFloat(maxLng as string),
+            };
+
+            if (Object.values(box).some(isNaN) || box.minLat > box.maxLat || box.minLng > box.maxLng) {
+                return res.status(400).json({ error: 'minLat, maxLat, minLng and maxLng must form a valid bounding box' });
+            }
+
+            where = { ...where, ...sitesInBox(box) };
+        }
+
+        // Filter by date range (of the first report) if provided
         if (startDate || endDate) {
-            where.createdAt = {};
+            where.firstReportedAt = {};
             if (startDate) {
-                where.createdAt.gte = new Date(startDate as string);
+                where.firstReportedAt.gte = new Date(startDate as string);
             }
             if (endDate) {
-                where.createdAt.lte = new Date(endDate as string);
+                where.firstReportedAt.lte = new Date(endDate as string);
             }
         }
 
-        const dumps = await prisma.dumpReport.findMany({
+        const sites = await prisma.dumpSite.findMany({
             where,
-            select: {
-                id: true,
-                latitude: true,
-                longitude: true,
-                size: true,
-                status: true,
-                createdAt: true,
-                _count: {
-                    select: {
-                        verifications: true,
-                    },
-                },
-            },
             orderBy: {
-                createdAt: 'desc',
+                firstReportedAt: 'desc',
             },
         });
 
         // Format for heatmap visualization
-        const heatmapData = dumps.map(d => ({
-            id: d.id,
-            lat: d.latitude,
-            lng: d.longitude,
-            size: d.size,
-            status: d.status,
-            verifications: d._count.verifications,
-            createdAt: d.createdAt,
+        const heatmapData = sites.map(s => ({
+            id: s.id,
+            lat: s.latitude,
+            lng: s.longitude,
+            size: s.size,
+            status: s.status,
+            reports: s.reportCount,
+            createdAt: s.firstReportedAt,
+            lastReportedAt: s.lastReportedAt,
         }));
 
         res.json({
@@ -69,22 +79,23 @@ export const getHeatmap = async (req: Request, res: Response) => {
 };
 
 /**
- * Get dump density analytics
+ * Get dump density analytics, counting dump sites rather than reports
  */
 export const getDensity = async (req: Request, res: Response) => {
     try {
         const { gridSize } = req.query;
         const gridSizeNum = parseFloat(gridSize as string) || 0.01; // Default ~1km grid
 
-        // Get all verified dumps
-        const dumps = await prisma.dumpReport.findMany({
+        // Get all verified dump sites
+        const dumps = await prisma.dumpSite.findMany({
             where: {
-                status: 'VERIFIED',
+                status: { in: OPEN_DUMP_STATUSES },
             },
             select: {
                 latitude: true,
                 longitude: true,
                 size: true,
+                reportCount: true,
             },
         });
 
@@ -101,12 +112,14 @@ export const getDensity = async (req: Request, res: Response) => {
                     lat: gridLat,
                     lng: gridLng,
                     count: 0,
+                    reports: 0,
                     sizes: { SMALL: 0, MEDIUM: 0, LARGE: 0 },
                 });
             }
 
             const cell = densityMap.get(key)!;
             cell.count++;
+            cell.reports += dump.reportCount;
             cell.sizes[dump.size]++;
         });
 
@@ -116,7 +129,7 @@ export const getDensity = async (req: Request, res: Response) => {
             density: densityData,
             gridSize: gridSizeNum,
             totalCells: densityData.length,
-            totalDumps: dumps.length,
+            totalSites: dumps.length,
         });
     } catch (error) {
         console.error('Get density error:', error);
@@ -142,8 +155,8 @@ export const getVerifiedDumps = async (req: Request, res: Response) => {
         if (status) {
             where.status = status;
         } else {
-            // Default to verified dumps
-            where.status = 'VERIFIED';
+            // Default to verified dumps not yet cleaned
+            where.status = { in: OPEN_DUMP_STATUSES };
         }
 
         // Filter by date range
@@ -165,6 +178,7 @@ export const getVerifiedDumps = async (req: Request, res: Response) => {
                 longitude: true,
                 size: true,
                 status: true,
+                siteId: true,
                 description: true,
                 createdAt: true,
                 _count: {
@@ -198,3 +212,107 @@ export const getVerifiedDumps = async (req: Request, res: Response) => {
         res.status(500).json({ error: 'Failed to fetch verified dumps' });
     }
 };
+
+/**
+ * Get recycling volumes and values per material
+ */
+export const getRecyclingStats = async (req: Request, res: Response) => {
+    try {
+        const { startDate, endDate } = req.query;
+
+        let where: any = {};
+
+        // Filter by declaration date range if provided
+        if (startDate || endDate) {
+            where.createdAt = {};
+            if (startDate) {
+                where.createdAt.gte = new Date(startDate as string);
+            }
+            if (endDate) {
+                where.createdAt.lte = new Date(endDate as string);
+            }
+        }
+
+        const [materials, declared, confirmations] = await Promise.all([
+            prisma.material.findMany({
+                orderBy: {
+                    code: 'asc',
+                },
+            }),
+            prisma.wasteDeclaration.groupBy({
+                by: ['materialId'],
+                where,
+                _count: true,
+                _sum: {
+                    estimatedKg: true,
+                },
+            }),
+            prisma.agencyConfirmation.findMany({
+                where: {
+                    declaration: where,
+                },
+                select: {
+                    confirmedKg: true,
+                    totalValue: true,
+                    declaration: {
+                        select: {
+                            materialId: true,
+                        },
+                    },
+                },
+            }),
+        ]);
+
+        // Group confirmed weights by material
+        const confirmedByMaterial = new Map<string, { count: number; confirmedKg: number; totalValue: number }>();
+
+        confirmations.forEach(c => {
+            const key = c.declaration.materialId;
+
+            if (!confirmedByMaterial.has(key)) {
+                confirmedByMaterial.set(key, { count: 0, confirmedKg: 0, totalValue: 0 });
+            }
+
+            const totals = confirmedByMaterial.get(key)!;
+            totals.count++;
+            totals.confirmedKg += c.confirmedKg;
+            totals.totalValue += c.totalValue;
+        });
+
+        const byMaterial = materials
+            .map(m => {
+                const declaredTotals = declared.find(d => d.materialId === m.id);
+                const confirmedTotals = confirmedByMaterial.get(m.id);
+
+                return {
+                    code: m.code,
+                    name: m.name,
+                    unit: m.unit,
+                    isPaid: m.isPaid,
+                    isActive: m.isActive,
+                    declarations: declaredTotals?._count || 0,
+                    estimatedKg: declaredTotals?._sum.estimatedKg || 0,
+                    validated: confirmedTotals?.count || 0,
+                    confirmedKg: confirmedTotals?.confirmedKg || 0,
+                    totalValue: confirmedTotals?.totalValue || 0,
+                };
+            })
+            .filter(m => m.isActive || m.declarations > 0);
+
+        res.json({
+            materials: byMaterial,
+            totals: {
+                declarations: byMaterial.reduce((sum, m) => sum + m.declarations, 0),
+                confirmedKg: byMaterial.reduce((sum, m) => sum + m.confirmedKg, 0),
+                totalValue: byMaterial.reduce((sum, m) => sum + m.totalValue, 0),
+            },
+            metadata: {
+                startDate: startDate || 'all time',
+                endDate: endDate || 'now',
+            },
+        });
+    } catch (error) {
+        console.error('Get recycling stats error:', error);
+        res.status(500).json({ error: 'Failed to fetch recycling stats' });
+    }
+};
@@ -0,0 +1,375 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../index';
+import { MobileMoneyProvider, MobileMoneyResult, getMobileMoneyProvider } from '../services/mobileMoney';
+import {
+    HOUSE_ACCOUNTS,
+    InsufficientFundsError,
+    getHouseWallet,
+    getUserWallet,
+    postJournal,
+} from '../services/ledger';
+
+// Validation schemas
+const requestPayoutSchema = z.object({
+    amount: z.number().positive('Amount must be positive'),
+    momoNumber: z.string().min(9, 'Mobile money number must be at least 9 characters').optional(),
+});
+
+const rejectPayoutSchema = z.object({
+    notes: z.string().optional(),
+});
+
+const PAYOUT_MIN_AMOUNT = parseFloat(process.env.PAYOUT_MIN_AMOUNT || '500');
+
+/**
+ * CITIZEN/COLLECTOR: Request a payout of wallet funds to mobile money
+ * Funds are reserved (moved to payout clearing) immediately. Payouts only
+ * go to the account's verified phone.
+ */
+export const requestPayout = async (req: Request, res: Response) => {
+    try {
+        const data = requestPayoutSchema.parse(req.body);
+        const userId = req.user!.userId;
+
+        if (data.amount < PAYOUT_MIN_AMOUNT) {
+            return res.status(400).json({
+                error: 'Amount too small',
+                message: `Minimum payout amount is ${PAYOUT_MIN_AMOUNT}`,
+            });
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { phone: true },
+        });
+
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        if (data.momoNumber && data.momoNumber !== user.phone) {
+            return res.status(400).json({
+                error: 'Invalid mobile money number',
+                message: 'Payouts can only be sent to your verified phone number'
+            });
+        }
+
+        const payout = await prisma.$transaction(async (tx) => {
+            const p = await tx.payout.create({
+                data: {
+                    userId,
+                    amount: data.amount,
+                    momoNumber: user.phone,
+                    status: 'PENDING',
+                },
+            });
+
+            // Reserve funds in clearing (fails if the balance does not cover the amount)
+            const wallet = await getUserWallet(tx, userId);
+            const clearing = await getHouseWallet(tx, HOUSE_ACCOUNTS.PAYOUT_CLEARING);
+
+            await postJournal(tx, {
+                type: 'PAYOUT_RESERVE',
+                payoutId: p.id,
+                postings: [
+                    { walletId: wallet.id, amount: -data.amount, requireFunds: true },
+                    { walletId: clearing.id, amount: data.amount },
+                ],
+            });
+
+            return p;
+        });
+
+        res.status(201).json({
+            message: 'Payout requested successfully',
+            payout,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        if (error instanceof InsufficientFundsError) {
+            return res.status(400).json({ error: 'Insufficient balance' });
+        }
+        console.error('Request payout error:', error);
+        res.status(500).json({ error: 'Failed to request payout' });
+    }
+};
+
+/**
+ * Get payouts (own payouts, or all payouts for admins)
+ */
+export const getPayouts = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user!.userId;
+        const role = req.user!.role;
+        const { status } = req.query;
+
+        let where: any = {};
+
+        if (role === 'CITIZEN' || role === 'COLLECTOR') {
+            where.userId = userId;
+        }
+
+        if (status) {
+            where.status = status;
+        }
+
+        const payouts = await prisma.payout.findMany({
+            where,
+            include: {
+                user: {
+                    select: {
+                        phone: true,
+                        role: true,
+                        profile: {
+                            select: {
+                                firstName: true,
+                                lastName: true,
+                            },
+                        },
+                    },
+                },
+            },
+            orderBy: {
+                requestedAt: 'desc',
+            },
+        });
+
+        res.json({ payouts, count: payouts.length });
+    } catch (error) {
+        console.error('Get payouts error:', error);
+        res.status(500).json({ error: 'Failed to fetch payouts' });
+    }
+};
+
+/**
+ * Send a claimed payout, or find out what happened to it when an earlier
+ * attempt ended without a known outcome
+ * @returns null if the provider is still processing the transfer
+ */
+async function resolveTransfer(
+    provider: MobileMoneyProvider,
+    payout: { id: string; amount: number; momoNumber: string | null },
+    resume: boolean
+): Promise<MobileMoneyResult | null> {
+    if (resume) {
+        const transfer = await provider.getTransferStatus(payout.id);
+
+        if (transfer.state === 'PENDING') {
+            return null;
+        }
+
+        if (transfer.state !== 'NOT_FOUND') {
+            return {
+                success: transfer.state === 'COMPLETED',
+                reference: transfer.reference,
+                error: transfer.error,
+            };
+        }
+    }
+
+    // Keyed on the payout, so the provider never sends it twice
+    return provider.sendTransfer({
+        payoutId: payout.id,
+        amount: payout.amount,
+        momoNumber: payout.momoNumber!,
+    });
+}
+
+/**
+ * ADMIN: Approve a payout and send it through the mobile-money provider
+ * Approving a PROCESSING payout (the provider call errored out) checks the
+ * transfer's status with the provider before anything is sent again.
+ */
+export const approvePayout = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const operatorId = req.user!.userId;
+
+        const payout = await prisma.payout.findUnique({
+            where: { id },
+        });
+
+        if (!payout) {
+            return res.status(404).json({ error: 'Payout not found' });
+        }
+
+        if (payout.status !== 'PENDING' && payout.status !== 'PROCESSING') {
+            return res.status(400).json({
+                error: 'Invalid status',
+                message: 'Only PENDING or PROCESSING payouts can be approved'
+            });
+        }
+
+        const provider = getMobileMoneyProvider();
+
+        if (payout.status === 'PENDING') {
+            // Claim the payout so two operators cannot send it twice
+            const claimed = await prisma.payout.updateMany({
+                where: { id, status: 'PENDING' },
+                data: { status: 'PROCESSING', provider: provider.name, processedById: operatorId },
+            });
+
+            if (claimed.count === 0) {
+                return res.status(409).json({ error: 'Payout is already being processed' });
+            }
+        } else if (payout.provider !== provider.name) {
+            return res.status(409).json({
+                error: 'Provider changed',
+                message: `Payout was sent through ${payout.provider}, its status must be checked there`,
+            });
+        }
+
+        let result: MobileMoneyResult | null;
+        try {
+            result = await resolveTransfer(provider, payout, payout.status === 'PROCESSING');
+        } catch (providerError) {
+            // Outcome unknown: keep PROCESSING (funds stay reserved) until the provider answers
+            console.error('Mobile money provider error:', providerError);
+            return res.status(502).json({
+                error: 'Mobile money provider unavailable',
+                message: 'Payout remains PROCESSING, approve it again to check its status',
+            });
+        }
+
+        if (!result) {
+            return res.status(202).json({
+                message: 'Transfer still in progress at the provider, approve it again later',
+                payout: await prisma.payout.findUnique({ where: { id } }),
+            });
+        }
+
+        const outcome = result;
+
+        const updatedPayout = await prisma.$transaction(async (tx) => {
+            // Guard against two operators settling the same outcome
+            const settled = await tx.payout.updateMany({
+                where: { id, status: 'PROCESSING' },
+                data: {
+                    status: outcome.success ? 'COMPLETED' : 'FAILED',
+                    reference: outcome.reference,
+                    notes: outcome.error,
+                    processedAt: new Date(),
+                },
+            });
+
+            if (settled.count === 0) {
+                return null;
+            }
+
+            const clearing = await getHouseWallet(tx, HOUSE_ACCOUNTS.PAYOUT_CLEARING);
+
+            if (outcome.success) {
+                // Reserved funds leave the system through mobile money
+                const settlement = await getHouseWallet(tx, HOUSE_ACCOUNTS.SETTLEMENT);
+
+                await postJournal(tx, {
+                    type: 'PAYOUT_SETTLEMENT',
+                    payoutId: payout.id,
+                    postings: [
+                        { walletId: clearing.id, amount: -payout.amount },
+                        { walletId: settlement.id, amount: payout.amount },
+                    ],
+                });
+            } else {
+                // Refund reserved funds
+                const wallet = await getUserWallet(tx, payout.userId);
+
+                await postJournal(tx, {
+                    type: 'PAYOUT_REFUND',
+                    payoutId: payout.id,
+                    description: outcome.error,
+                    postings: [
+                        { walletId: clearing.id, amount: -payout.amount },
+                        { walletId: wallet.id, amount: payout.amount },
+                    ],
+                });
+            }
+
+            return tx.payout.findUnique({ where: { id } });
+        });
+
+        if (!updatedPayout) {
+            return res.status(409).json({ error: 'Payout was already settled' });
+        }
+
+        res.json({
+            message: outcome.success ? 'Payout completed successfully' : 'Payout failed and funds were refunded',
+            payout: updatedPayout,
+        });
+    } catch (error) {
+        console.error('Approve payout error:', error);
+        res.status(500).json({ error: 'Failed to approve payout' });
+    }
+};
+
+/**
+ * ADMIN: Reject a pending payout and refund the wallet
+ */
+export const rejectPayout = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const data = rejectPayoutSchema.parse(req.body);
+        const operatorId = req.user!.userId;
+
+        const existing = await prisma.payout.findUnique({
+            where: { id },
+        });
+
+        if (!existing) {
+            return res.status(404).json({ error: 'Payout not found' });
+        }
+
+        const payout = await prisma.$transaction(async (tx) => {
+            const rejected = await tx.payout.updateMany({
+                where: { id, status: 'PENDING' },
+                data: {
+                    status: 'REJECTED',
+                    processedById: operatorId,
+                    processedAt: new Date(),
+                    notes: data.notes,
+                },
+            });
+
+            if (rejected.count === 0) {
+                return null;
+            }
+
+            // Refund reserved funds
+            const clearing = await getHouseWallet(tx, HOUSE_ACCOUNTS.PAYOUT_CLEARING);
+            const wallet = await getUserWallet(tx, existing.userId);
+
+            await postJournal(tx, {
+                type: 'PAYOUT_REFUND',
+                payoutId: id,
+                description: data.notes,
+                postings: [
+                    { walletId: clearing.id, amount: -existing.amount },
+                    { walletId: wallet.id, amount: existing.amount },
+                ],
+            });
+
+            return tx.payout.findUnique({ where: { id } });
+        });
+
+        if (!payout) {
+            return res.status(400).json({
+                error: 'Invalid status',
+                message: 'Only PENDING payouts can be rejected'
+            });
+        }
+
+        res.json({
+            message: 'Payout rejected and funds refunded',
+            payout,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Reject payout error:', error);
+        res.status(500).json({ error: 'Failed to reject payout' });
+    }
+};
@@ -0,0 +1,42 @@
+import { Request, Response } from 'express';
+import path from 'path';
+import { LocalStorageDriver, getStorageDriver, verifyLocalKey } from '../services/storage';
+
+/**
+ * Public: Serve a locally stored photo from a signed URL.
+ * The signature stands in for authentication so the URL works in <img> tags.
+ */
+export const servePhoto = async (req: Request, res: Response) => {
+    try {
+        const key = req.params[0];
+        const expires = parseInt(req.query.expires as string);
+        const signature = typeof req.query.signature === 'string' ? req.query.signature : '';
+
+        if (!verifyLocalKey(key, expires, signature)) {
+            return res.status(403).json({ error: 'Invalid or expired photo link' });
+        }
+
+        // S3 URLs are signed by S3 itself and never point here
+        const storage = getStorageDriver();
+
+        if (!(storage instanceof LocalStorageDriver)) {
+            return res.status(404).json({ error: 'Photo not found' });
+        }
+
+        let data: Buffer;
+        try {
+            data = await storage.get(key);
+        } catch {
+            return res.status(404).json({ error: 'Photo not found' });
+        }
+
+        res.set({
+            'Cache-Control': `private, max-age=${expires - Math.floor(Date.now() / 1000)}`,
+            'X-Content-Type-Options': 'nosniff',
+        });
+        res.type(path.extname(key)).send(data);
+    } catch (error) {
+        console.error('Serve photo error:', error);
+        res.status(500).json({ error: 'Failed to fetch photo' });
+    }
+};
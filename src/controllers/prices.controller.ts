@@ -0,0 +1,322 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../index';
+import { calculateDistance, getBoundingBox } from '../utils/geoUtils';
+import { resolveCurrentPrices, resolveSplitPolicy } from '../services/pricing';
+
+// Validation schemas
+const publishPriceSchema = z.object({
+    wasteType: z.string().trim().toUpperCase().min(1), // Material code
+    pricePerKg: z.number().positive('Price must be positive'),
+    effectiveFrom: z.coerce.date().optional(),
+});
+
+const nearbyPricesSchema = z.object({
+    lat: z.coerce.number().min(-90).max(90),
+    lng: z.coerce.number().min(-180).max(180),
+    radius: z.coerce.number().positive().max(100000).optional(),
+    wasteType: z.string().trim().toUpperCase().optional(),
+});
+
+const splitPolicySchema = z.object({
+    name: z.string().optional(),
+    wasteType: z.string().trim().toUpperCase().optional(), // Material code, omit for all materials
+    collectorPercentage: z.number().min(0).max(100),
+    citizenPercentage: z.number().min(0).max(100),
+    citylinkPercentage: z.number().min(0).max(100),
+    isPromotion: z.boolean().optional(),
+    effectiveFrom: z.coerce.date().optional(),
+    effectiveTo: z.coerce.date().optional(),
+}).refine(
+    data => Math.abs(data.collectorPercentage + data.citizenPercentage + data.citylinkPercentage - 100) < 0.001,
+    { message: 'Percentages must sum to 100' }
+).refine(
+    data => !data.isPromotion || data.effectiveTo,
+    { message: 'Promotions require an end date (effectiveTo)' }
+);
+
+const PRICE_SEARCH_RADIUS = parseFloat(process.env.PRICE_SEARCH_RADIUS || '10000'); // meters
+
+/**
+ * AGENCY: Publish a new price for a material
+ * Prices are never edited; a new row takes over from its effectiveFrom date.
+ */
+export const publishPrice = async (req: Request, res: Response) => {
+    try {
+        const data = publishPriceSchema.parse(req.body);
+        const agencyId = req.user!.userId;
+        const now = new Date();
+
+        // Backdating would silently change prices already used in validations
+        if (data.effectiveFrom && data.effectiveFrom < now) {
+            return res.status(400).json({
+                error: 'Invalid effective date',
+                message: 'Prices cannot take effect in the past'
+            });
+        }
+
+        const material = await prisma.material.findUnique({
+            where: { code: data.wasteType },
+        });
+
+        if (!material || !material.isActive) {
+            return res.status(400).json({
+                error: 'Unknown material',
+                message: `${data.wasteType} is not an accepted material`
+            });
+        }
+
+        if (!material.isPaid) {
+            return res.status(400).json({
+                error: 'Unpaid material',
+                message: `${material.code} is collected without payment and cannot be priced`
+            });
+        }
+
+        const price = await prisma.materialPrice.create({
+            data: {
+                agencyId,
+                materialId: material.id,
+                pricePerKg: data.pricePerKg,
+                effectiveFrom: data.effectiveFrom || now,
+            },
+            include: {
+                material: true,
+            },
+        });
+
+        res.status(201).json({
+            message: 'Price published successfully',
+            price,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Publish price error:', error);
+        res.status(500).json({ error: 'Failed to publish price' });
+    }
+};
+
+/**
+ * AGENCY: Get own price history and the prices currently in force
+ */
+export const getMyPrices = async (req: Request, res: Response) => {
+    try {
+        const agencyId = req.user!.userId;
+
+        const [history, current] = await Promise.all([
+            prisma.materialPrice.findMany({
+                where: { agencyId },
+                include: {
+                    material: true,
+                },
+                orderBy: {
+                    effectiveFrom: 'desc',
+                },
+            }),
+            resolveCurrentPrices(prisma, [agencyId]),
+        ]);
+
+        res.json({ current, history, count: history.length });
+    } catch (error) {
+        console.error('Get my prices error:', error);
+        res.status(500).json({ error: 'Failed to fetch prices' });
+    }
+};
+
+/**
+ * Get current prices of agencies near a location
+ */
+export const getNearbyPrices = async (req: Request, res: Response) => {
+    try {
+        const query = nearbyPricesSchema.parse(req.query);
+        const radius = query.radius || PRICE_SEARCH_RADIUS;
+        const box = getBoundingBox(query.lat, query.lng, radius);
+
+        const agencies = await prisma.user.findMany({
+            where: {
+                role: 'AGENCY',
+                status: 'ACTIVE',
+                profile: {
+                    latitude: { gte: box.minLat, lte: box.maxLat },
+                    longitude: { gte: box.minLng, lte: box.maxLng },
+                },
+            },
+            select: {
+                id: true,
+                phone: true,
+                profile: true,
+            },
+        });
+
+        const nearbyAgencies = agencies
+            .map(a => ({
+                ...a,
+                distance: calculateDistance(
+                    query.lat,
+                    query.lng,
+                    a.profile!.latitude!,
+                    a.profile!.longitude!
+                ),
+            }))
+            .filter(a => a.distance <= radius);
+
+        let materialId: string | undefined;
+
+        if (query.wasteType) {
+            const material = await prisma.material.findUnique({
+                where: { code: query.wasteType },
+            });
+
+            if (!material) {
+                return res.status(400).json({ error: 'Unknown material' });
+            }
+
+            materialId = material.id;
+        }
+
+        const [prices, materials] = await Promise.all([
+            resolveCurrentPrices(prisma, nearbyAgencies.map(a => a.id), materialId),
+            prisma.material.findMany(),
+        ]);
+
+        const materialsById = new Map(materials.map(m => [m.id, m]));
+
+        const results = nearbyAgencies
+            .map(a => ({
+                agency: {
+                    id: a.id,
+                    phone: a.phone,
+                    name: [a.profile?.firstName, a.profile?.lastName].filter(Boolean).join(' ') || null,
+                    address: a.profile?.address,
+                    city: a.profile?.city,
+                },
+                distance: Math.round(a.distance),
+                prices: prices
+                    .filter(p => p.agencyId === a.id && materialsById.get(p.materialId)!.isActive)
+                    .map(p => ({
+                        wasteType: materialsById.get(p.materialId)!.code,
+                        material: materialsById.get(p.materialId)!.name,
+                        pricePerKg: p.pricePerKg,
+                        effectiveFrom: p.effectiveFrom,
+                    })),
+            }))
+            .filter(r => r.prices.length > 0)
+            .sort((a, b) => a.distance - b.distance);
+
+        res.json({ agencies: results, count: results.length, radius });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Get nearby prices error:', error);
+        res.status(500).json({ error: 'Failed to fetch nearby prices' });
+    }
+};
+
+/**
+ * AGENCY: Publish a revenue split policy (regular or promotional)
+ */
+export const publishSplitPolicy = async (req: Request, res: Response) => {
+    try {
+        const data = splitPolicySchema.parse(req.body);
+        const agencyId = req.user!.userId;
+        const now = new Date();
+        const effectiveFrom = data.effectiveFrom || now;
+
+        // Backdating would make past transactions disagree with the policy in force
+        if (effectiveFrom < now) {
+            return res.status(400).json({
+                error: 'Invalid effective date',
+                message: 'Policies cannot take effect in the past'
+            });
+        }
+
+        if (data.effectiveTo && data.effectiveTo <= effectiveFrom) {
+            return res.status(400).json({
+                error: 'Invalid effective date',
+                message: 'effectiveTo must be after effectiveFrom'
+            });
+        }
+
+        let materialId: string | undefined;
+
+        if (data.wasteType) {
+            const material = await prisma.material.findUnique({
+                where: { code: data.wasteType },
+            });
+
+            if (!material || !material.isActive || !material.isPaid) {
+                return res.status(400).json({
+                    error: 'Unknown material',
+                    message: `${data.wasteType} is not an accepted paid material`
+                });
+            }
+
+            materialId = material.id;
+        }
+
+        const policy = await prisma.splitPolicy.create({
+            data: {
+                agencyId,
+                name: data.name,
+                materialId,
+                collectorPercentage: data.collectorPercentage,
+                citizenPercentage: data.citizenPercentage,
+                citylinkPercentage: data.citylinkPercentage,
+                isPromotion: data.isPromotion || false,
+                effectiveFrom,
+                effectiveTo: data.effectiveTo,
+            },
+        });
+
+        res.status(201).json({
+            message: 'Split policy published successfully',
+            policy,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Publish split policy error:', error);
+        res.status(500).json({ error: 'Failed to publish split policy' });
+    }
+};
+
+/**
+ * AGENCY: Get own split policies and the policy in force per paid material
+ */
+export const getMySplitPolicies = async (req: Request, res: Response) => {
+    try {
+        const agencyId = req.user!.userId;
+
+        const materials = await prisma.material.findMany({
+            where: { isActive: true, isPaid: true },
+            orderBy: { code: 'asc' },
+        });
+
+        const [history, inForce] = await Promise.all([
+            prisma.splitPolicy.findMany({
+                where: { agencyId },
+                include: {
+                    material: true,
+                },
+                orderBy: {
+                    effectiveFrom: 'desc',
+                },
+            }),
+            Promise.all(materials.map(m => resolveSplitPolicy(prisma, agencyId, m.id))),
+        ]);
+
+        const current = materials.map((material, i) => ({
+            wasteType: material.code,
+            policy: inForce[i],
+        }));
+
+        res.json({ current, history, count: history.length });
+    } catch (error) {
+        console.error('Get split policies error:', error);
+        res.status(500).json({ error: 'Failed to fetch split policies' });
+    }
+};
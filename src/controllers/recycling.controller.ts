@@ -1,18 +1,35 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import { prisma } from '../index';
-import { WasteType } from '@prisma/client';
+import { getLedgerBalance, reconcileLedger } from '../services/ledger';
+import { SettlementConflictError, settleDeclaration } from '../services/settlement';
+import { resolvePrice, resolveSplitPolicy } from '../services/pricing';
+import { CLAIM_WINDOW_MINUTES, MAX_ACTIVE_CLAIMS, lockCollectorClaims, releaseExpiredClaims } from '../services/claims';
+import { calculateDistance, getBoundingBox } from '../utils/geoUtils';
+import { decodeBase64Image, generatePhotoHash } from '../utils/photoHash';
+import { isUniqueViolation } from '../utils/prismaErrors';
+import {
+    StoredDumpPhoto,
+    deleteDumpPhoto,
+    detectPhotoFormat,
+    signDumpPhoto,
+    storeDumpPhoto,
+} from '../services/dumpPhotos';
 
 // Validation schemas
 const declareWasteSchema = z.object({
-    wasteType: z.enum(['PET', 'ALUMINUM', 'HDPE']),
+    wasteType: z.string().trim().toUpperCase().min(1), // Material code
     estimatedKg: z.number().positive('Weight must be positive'),
     latitude: z.number().min(-90).max(90),
     longitude: z.number().min(-180).max(180),
     description: z.string().optional(),
 });
 
+// Coerced: multipart form fields arrive as strings
 const pickupSchema = z.object({
+    latitude: z.coerce.number().min(-90).max(90),
+    longitude: z.coerce.number().min(-180).max(180),
+    photoBase64: z.string().min(100).optional(), // Legacy JSON clients; prefer a multipart "photo" file
     notes: z.string().optional(),
 });
 
@@ -21,18 +38,23 @@ const validateSchema = z.object({
     notes: z.string().optional(),
 });
 
-// Price per kg by waste type (from env or defaults)
-const getPricePerKg = (wasteType: WasteType): number => {
-    switch (wasteType) {
-        case 'PET':
-            return parseFloat(process.env.PRICE_PET_PER_KG || '500');
-        case 'ALUMINUM':
-            return parseFloat(process.env.PRICE_ALUMINUM_PER_KG || '800');
-        case 'HDPE':
-            return parseFloat(process.env.PRICE_HDPE_PER_KG || '600');
-        default:
-            return 0;
-    }
+const nearbySchema = z.object({
+    lat: z.coerce.number().min(-90).max(90),
+    lng: z.coerce.number().min(-180).max(180),
+    radius: z.coerce.number().positive().max(50000).optional(),
+    wasteType: z.string().trim().toUpperCase().optional(),
+    minKg: z.coerce.number().nonnegative().optional(),
+    limit: z.coerce.number().int().positive().max(200).optional(),
+});
+
+const PICKUP_MAX_DISTANCE = parseFloat(process.env.PICKUP_MAX_DISTANCE || '200'); // meters
+const PICKUP_DISTANCE_MODE = process.env.PICKUP_DISTANCE_MODE === 'flag' ? 'flag' : 'reject';
+const NEARBY_DEFAULT_RADIUS = parseFloat(process.env.NEARBY_DEFAULT_RADIUS || '5000'); // meters
+const NEARBY_MAX_CANDIDATES = parseInt(process.env.NEARBY_MAX_CANDIDATES || '500');
+
+const PHOTO_ALREADY_USED = {
+    error: 'Photo already used',
+    message: 'This photo has already been submitted. Please take a new photo.',
 };
 
 /**
@@ -43,10 +65,21 @@ export const declareWaste = async (req: Request, res: Response) => {
         const data = declareWasteSchema.parse(req.body);
         const userId = req.user!.userId;
 
+        const material = await prisma.material.findUnique({
+            where: { code: data.wasteType },
+        });
+
+        if (!material || !material.isActive) {
+            return res.status(400).json({
+                error: 'Unknown material',
+                message: `${data.wasteType} is not an accepted material`
+            });
+        }
+
         const declaration = await prisma.wasteDeclaration.create({
             data: {
                 citizenId: userId,
-                wasteType: data.wasteType as WasteType,
+                materialId: material.id,
                 estimatedKg: data.estimatedKg,
                 latitude: data.latitude,
                 longitude: data.longitude,
@@ -54,6 +87,7 @@ export const declareWaste = async (req: Request, res: Response) => {
                 status: 'PENDING',
             },
             include: {
+                material: true,
                 citizen: {
                     select: {
                         id: true,
@@ -83,9 +117,124 @@ export const declareWaste = async (req: Request, res: Response) => {
 };
 
 /**
- * COLLECTOR: Confirm pickup of declared waste
+ * COLLECTOR: Claim a PENDING declaration so no other collector drives to it
+ */
+export const claimDeclaration = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const collectorId = req.user!.userId;
+
+        const declaration = await prisma.wasteDeclaration.findUnique({
+            where: { id },
+        });
+
+        if (!declaration) {
+            return res.status(404).json({ error: 'Declaration not found' });
+        }
+
+        // Free up stale claims (including this collector's) before checking limits
+        await releaseExpiredClaims(prisma);
+
+        const claimExpiresAt = new Date(Date.now() + CLAIM_WINDOW_MINUTES * 60 * 1000);
+
+        const rejection = await prisma.$transaction(async (tx) => {
+            // Count and claim under the collector's lock so the limit holds under concurrency
+            await lockCollectorClaims(tx, collectorId);
+
+            const activeClaims = await tx.wasteDeclaration.count({
+                where: {
+                    claimedById: collectorId,
+                    status: 'ASSIGNED',
+                },
+            });
+
+            if (activeClaims >= MAX_ACTIVE_CLAIMS) {
+                return {
+                    status: 400,
+                    body: {
+                        error: 'Claim limit reached',
+                        message: `You can hold at most ${MAX_ACTIVE_CLAIMS} claims at a time`
+                    },
+                };
+            }
+
+            // Only succeeds if nobody claimed or picked it up in the meantime
+            const claimed = await tx.wasteDeclaration.updateMany({
+                where: { id, status: 'PENDING' },
+                data: {
+                    status: 'ASSIGNED',
+                    claimedById: collectorId,
+                    claimExpiresAt,
+                },
+            });
+
+            if (claimed.count === 0) {
+                return {
+                    status: 409,
+                    body: {
+                        error: 'Declaration not available',
+                        message: 'Only PENDING declarations can be claimed'
+                    },
+                };
+            }
+
+            return null;
+        });
+
+        if (rejection) {
+            return res.status(rejection.status).json(rejection.body);
+        }
+
+        res.json({
+            message: 'Declaration claimed successfully',
+            declarationId: id,
+            claimExpiresAt,
+        });
+    } catch (error) {
+        console.error('Claim declaration error:', error);
+        res.status(500).json({ error: 'Failed to claim declaration' });
+    }
+};
+
+/**
+ * COLLECTOR: Release an own claim back to the PENDING pool
+ */
+export const releaseClaim = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const collectorId = req.user!.userId;
+
+        const released = await prisma.wasteDeclaration.updateMany({
+            where: {
+                id,
+                status: 'ASSIGNED',
+                claimedById: collectorId,
+            },
+            data: {
+                status: 'PENDING',
+                claimedById: null,
+                claimExpiresAt: null,
+            },
+        });
+
+        if (released.count === 0) {
+            return res.status(400).json({ error: 'You have no active claim on this declaration' });
+        }
+
+        res.json({ message: 'Claim released successfully', declarationId: id });
+    } catch (error) {
+        console.error('Release claim error:', error);
+        res.status(500).json({ error: 'Failed to release claim' });
+    }
+};
+
+/**
+ * COLLECTOR: Confirm pickup of declared waste from the declared location
+ * Allowed on unclaimed PENDING declarations, own claims, or expired claims.
  */
 export const confirmPickup = async (req: Request, res: Response) => {
+    let stored: StoredDumpPhoto | undefined;
+
     try {
         const { id } = req.params;
         const data = pickupSchema.parse(req.body);
@@ -100,41 +249,144 @@ export const confirmPickup = async (req: Request, res: Response) => {
             return res.status(404).json({ error: 'Declaration not found' });
         }
 
-        if (declaration.status !== 'PENDING') {
+        const now = new Date();
+        const claimedByOther =
+            declaration.status === 'ASSIGNED' &&
+            declaration.claimedById !== collectorId &&
+            declaration.claimExpiresAt! > now;
+
+        if (claimedByOther) {
+            return res.status(409).json({
+                error: 'Declaration claimed',
+                message: 'This declaration is claimed by another collector'
+            });
+        }
+
+        if (declaration.status !== 'PENDING' && declaration.status !== 'ASSIGNED') {
             return res.status(400).json({
                 error: 'Invalid status',
-                message: 'Only PENDING declarations can be picked up'
+                message: 'Only PENDING or ASSIGNED declarations can be picked up'
             });
         }
 
+        // Check the collector is actually at the declared location
+        const pickupDistance = calculateDistance(
+            data.latitude,
+            data.longitude,
+            declaration.latitude,
+            declaration.longitude
+        );
+        const isTooFar = pickupDistance > PICKUP_MAX_DISTANCE;
+
+        if (isTooFar && PICKUP_DISTANCE_MODE === 'reject') {
+            return res.status(400).json({
+                error: 'Too far from declaration',
+                message: `You must be within ${PICKUP_MAX_DISTANCE}m of the declared location (currently ${Math.round(pickupDistance)}m)`
+            });
+        }
+
+        // Pickup photos share the anti-fraud hash table with dump reports
+        const photo = req.file?.buffer
+            ?? (data.photoBase64 ? decodeBase64Image(data.photoBase64) : undefined);
+        let photoHash: string | undefined;
+
+        if (photo) {
+            const format = await detectPhotoFormat(photo);
+
+            if (!format) {
+                return res.status(400).json({
+                    error: 'Invalid photo format',
+                    message: 'Send a JPEG, PNG or WebP image'
+                });
+            }
+
+            photoHash = generatePhotoHash(photo.toString('base64'));
+
+            const existingPhoto = await prisma.photoHash.findUnique({
+                where: { hash: photoHash },
+            });
+
+            if (existingPhoto) {
+                return res.status(400).json(PHOTO_ALREADY_USED);
+            }
+
+            stored = await storeDumpPhoto(photo, format, 'pickups');
+        }
+
         // Create collection record and update declaration status
         const collection = await prisma.$transaction(async (tx) => {
-            const coll = await tx.collection.create({
+            // Only succeeds if the declaration was not claimed or picked up in the meantime
+            const updated = await tx.wasteDeclaration.updateMany({
+                where: { id, updatedAt: declaration.updatedAt },
+                data: {
+                    status: 'PICKED_UP',
+                    claimedById: null,
+                    claimExpiresAt: null,
+                },
+            });
+
+            if (updated.count === 0) {
+                return null;
+            }
+
+            if (photoHash) {
+                await tx.photoHash.create({
+                    data: {
+                        hash: photoHash,
+                        uploadedBy: collectorId,
+                    },
+                });
+            }
+
+            return tx.collection.create({
                 data: {
                     declarationId: id,
                     collectorId,
                     notes: data.notes,
+                    pickupLatitude: data.latitude,
+                    pickupLongitude: data.longitude,
+                    pickupDistance,
+                    locationFlagged: isTooFar,
+                    photoKey: stored?.photoKey,
+                    thumbnailKey: stored?.thumbnailKey,
+                    photoHash,
                 },
             });
+        });
 
-            await tx.wasteDeclaration.update({
-                where: { id },
-                data: { status: 'PICKED_UP' },
+        if (!collection) {
+            return res.status(409).json({
+                error: 'Declaration changed',
+                message: 'The declaration was updated by someone else, please retry'
             });
+        }
 
-            return coll;
-        });
+        // The collection is saved, so the photo is no longer an orphan
+        stored = undefined;
 
         res.json({
-            message: 'Pickup confirmed successfully',
-            collection,
+            message: isTooFar
+                ? 'Pickup confirmed but flagged for review (outside the allowed distance)'
+                : 'Pickup confirmed successfully',
+            collection: {
+                ...collection,
+                ...await signDumpPhoto(collection),
+            },
         });
     } catch (error) {
         if (error instanceof z.ZodError) {
             return res.status(400).json({ error: 'Validation failed', details: error.errors });
         }
+        // The same photo was submitted concurrently, after the check above
+        if (isUniqueViolation(error, 'hash')) {
+            return res.status(400).json(PHOTO_ALREADY_USED);
+        }
         console.error('Confirm pickup error:', error);
         res.status(500).json({ error: 'Failed to confirm pickup' });
+    } finally {
+        if (stored) {
+            await deleteDumpPhoto(stored);
+        }
     }
 };
 
@@ -152,6 +404,7 @@ export const validateWeight = async (req: Request, res: Response) => {
             where: { id },
             include: {
                 collection: true,
+                material: true,
             },
         });
 
@@ -170,104 +423,131 @@ export const validateWeight = async (req: Request, res: Response) => {
             return res.status(400).json({ error: 'No collection record found' });
         }
 
+        if (declaration.collection.deliveryId) {
+            return res.status(400).json({
+                error: 'Part of a delivery',
+                message: 'This declaration was delivered in a batch; validate the delivery instead'
+            });
+        }
+
         const collectorId = declaration.collection.collectorId;
         const citizenId = declaration.citizenId;
 
-        // Calculate payment split
-        const pricePerKg = getPricePerKg(declaration.wasteType);
-        const totalValue = data.confirmedKg * pricePerKg;
-
-        const collectorPercentage = parseFloat(process.env.COLLECTOR_PERCENTAGE || '50');
-        const citizenPercentage = parseFloat(process.env.CITIZEN_PERCENTAGE || '20');
-        const citylinkPercentage = parseFloat(process.env.CITYLINK_PERCENTAGE || '30');
-
-        const collectorAmount = (totalValue * collectorPercentage) / 100;
-        const citizenAmount = (totalValue * citizenPercentage) / 100;
-        const citylinkAmount = (totalValue * citylinkPercentage) / 100;
-
-        // Create confirmation, transaction, and update wallets
-        const result = await prisma.$transaction(async (tx) => {
-            // Create agency confirmation
-            const confirmation = await tx.agencyConfirmation.create({
-                data: {
-                    declarationId: id,
-                    agencyId,
-                    confirmedKg: data.confirmedKg,
-                    pricePerKg,
-                    totalValue,
-                    notes: data.notes,
-                },
-            });
+        const { material } = declaration;
+        let price = null;
+        let policy = null;
 
-            // Create recycling transaction
-            const transaction = await tx.recyclingTransaction.create({
-                data: {
-                    declarationId: id,
-                    totalAmount: totalValue,
-                    collectorAmount,
-                    citizenAmount,
-                    citylinkAmount,
-                },
-            });
+        // Unpaid materials are confirmed without a price or payment
+        if (material.isPaid) {
+            // Resolve the price this agency has in force right now
+            price = await resolvePrice(prisma, agencyId, material.id);
 
-            // Update collector wallet
-            await tx.wallet.upsert({
-                where: { userId: collectorId },
-                create: {
-                    userId: collectorId,
-                    balance: collectorAmount,
-                },
-                update: {
-                    balance: {
-                        increment: collectorAmount,
-                    },
-                },
-            });
+            if (!price) {
+                return res.status(400).json({
+                    error: 'No price in force',
+                    message: `Publish a price for ${material.code} before validating`
+                });
+            }
 
-            // Update citizen wallet
-            await tx.wallet.upsert({
-                where: { userId: citizenId },
-                create: {
-                    userId: citizenId,
-                    balance: citizenAmount,
-                },
-                update: {
-                    balance: {
-                        increment: citizenAmount,
-                    },
-                },
-            });
+            // Resolve the revenue split this agency applies right now
+            policy = await resolveSplitPolicy(prisma, agencyId, material.id);
 
-            // Update declaration status
-            await tx.wasteDeclaration.update({
-                where: { id },
-                data: { status: 'COMPLETED' },
-            });
+            if (!policy) {
+                return res.status(400).json({
+                    error: 'No split policy in force',
+                    message: `Publish a split policy covering ${material.code} before validating`
+                });
+            }
+        }
 
-            return { confirmation, transaction };
-        });
+        // Create confirmation, transaction, and update wallets
+        const result = await prisma.$transaction(tx =>
+            settleDeclaration(tx, {
+                declarationId: id,
+                citizenId,
+                collectorId,
+                agencyId,
+                confirmedKg: data.confirmedKg,
+                price,
+                policy,
+                notes: data.notes,
+            })
+        );
 
         res.json({
             message: 'Weight validated and transaction created successfully',
             ...result,
-            breakdown: {
-                totalValue,
-                collectorAmount,
-                citizenAmount,
-                citylinkAmount,
-            },
         });
     } catch (error) {
         if (error instanceof z.ZodError) {
             return res.status(400).json({ error: 'Validation failed', details: error.errors });
         }
+        if (error instanceof SettlementConflictError) {
+            return res.status(409).json({ error: 'Declaration was already validated' });
+        }
         console.error('Validate weight error:', error);
         res.status(500).json({ error: 'Failed to validate weight' });
     }
 };
 
+/**
+ * COLLECTOR: Get PENDING declarations around a location, nearest first
+ * Pre-filters on the indexed (status, latitude, longitude) bounding box,
+ * then applies the exact distance. At most NEARBY_MAX_CANDIDATES of the most
+ * recent declarations in the box are considered.
+ */
+const getNearbyDeclarations = async (req: Request, res: Response) => {
+    const query = nearbySchema.parse(req.query);
+    const radius = query.radius || NEARBY_DEFAULT_RADIUS;
+    const box = getBoundingBox(query.lat, query.lng, radius);
+
+    const candidates = await prisma.wasteDeclaration.findMany({
+        where: {
+            status: 'PENDING',
+            latitude: { gte: box.minLat, lte: box.maxLat },
+            longitude: { gte: box.minLng, lte: box.maxLng },
+            ...(query.wasteType && { material: { code: query.wasteType } }),
+            ...(query.minKg !== undefined && { estimatedKg: { gte: query.minKg } }),
+        },
+        include: {
+            material: true,
+            citizen: {
+                select: {
+                    phone: true,
+                    profile: {
+                        select: {
+                            firstName: true,
+                            lastName: true,
+                        },
+                    },
+                },
+            },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: NEARBY_MAX_CANDIDATES,
+    });
+
+    const declarations = candidates
+        .map(d => ({
+            ...d,
+            distance: Math.round(calculateDistance(query.lat, query.lng, d.latitude, d.longitude)),
+        }))
+        .filter(d => d.distance <= radius)
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, query.limit || 50);
+
+    res.json({
+        declarations,
+        count: declarations.length,
+        radius,
+        // The box held more declarations than were scanned: narrow the radius to see them all
+        truncated: candidates.length === NEARBY_MAX_CANDIDATES,
+    });
+};
+
 /**
  * Get all waste declarations (filtered by role)
+ * Collectors passing lat/lng get the nearby search instead.
  */
 export const getDeclarations = async (req: Request, res: Response) => {
     try {
@@ -275,19 +555,27 @@ export const getDeclarations = async (req: Request, res: Response) => {
         const role = req.user!.role;
         const { status } = req.query;
 
+        if (role === 'COLLECTOR' && (req.query.lat !== undefined || req.query.lng !== undefined)) {
+            return await getNearbyDeclarations(req, res);
+        }
+
         let where: any = {};
 
         // Filter by role
         if (role === 'CITIZEN') {
             where.citizenId = userId;
         } else if (role === 'COLLECTOR') {
-            // Collectors see all PENDING declarations or their own pickups
+            // Collectors see all PENDING (unclaimed) declarations, their claims, or their own pickups
             if (status === 'PENDING') {
                 where.status = 'PENDING';
+            } else if (status === 'ASSIGNED') {
+                where.status = 'ASSIGNED';
+                where.claimedById = userId;
             } else {
-                where.collection = {
-                    collectorId: userId,
-                };
+                where.OR = [
+                    { collection: { collectorId: userId } },
+                    { status: 'ASSIGNED', claimedById: userId },
+                ];
             }
         }
 
@@ -299,6 +587,7 @@ export const getDeclarations = async (req: Request, res: Response) => {
         const declarations = await prisma.wasteDeclaration.findMany({
             where,
             include: {
+                material: true,
                 citizen: {
                     select: {
                         phone: true,
@@ -310,6 +599,17 @@ export const getDeclarations = async (req: Request, res: Response) => {
                         },
                     },
                 },
+                claimedBy: {
+                    select: {
+                        phone: true,
+                        profile: {
+                            select: {
+                                firstName: true,
+                                lastName: true,
+                            },
+                        },
+                    },
+                },
                 collection: {
                     include: {
                         collector: {
@@ -328,8 +628,20 @@ export const getDeclarations = async (req: Request, res: Response) => {
             },
         });
 
-        res.json({ declarations, count: declarations.length });
+        // List view gets pickup photo thumbnails
+        const declarationsWithThumbnails = await Promise.all(declarations.map(async d => ({
+            ...d,
+            collection: d.collection && {
+                ...d.collection,
+                thumbnailUrl: (await signDumpPhoto(d.collection)).thumbnailUrl,
+            },
+        })));
+
+        res.json({ declarations: declarationsWithThumbnails, count: declarations.length });
     } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
         console.error('Get declarations error:', error);
         res.status(500).json({ error: 'Failed to fetch declarations' });
     }
@@ -350,13 +662,94 @@ export const getWallet = async (req: Request, res: Response) => {
             return res.json({ balance: 0, message: 'No wallet found' });
         }
 
-        res.json({ wallet });
+        // Balance is derived from the ledger, not the cached column
+        const balance = await getLedgerBalance(prisma, wallet.id);
+
+        res.json({ wallet: { ...wallet, balance } });
     } catch (error) {
         console.error('Get wallet error:', error);
         res.status(500).json({ error: 'Failed to fetch wallet' });
     }
 };
 
+/**
+ * Get user wallet ledger entries (most recent first)
+ */
+export const getWalletEntries = async (req: Request, res: Response) => {
+    try {
+        const userId = req.user!.userId;
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+        const offset = parseInt(req.query.offset as string) || 0;
+
+        const wallet = await prisma.wallet.findUnique({
+            where: { userId },
+        });
+
+        if (!wallet) {
+            return res.json({ entries: [], count: 0, message: 'No wallet found' });
+        }
+
+        const [entries, total] = await Promise.all([
+            prisma.ledgerEntry.findMany({
+                where: { walletId: wallet.id },
+                include: {
+                    declaration: {
+                        select: {
+                            id: true,
+                            material: {
+                                select: {
+                                    code: true,
+                                    name: true,
+                                },
+                            },
+                            status: true,
+                        },
+                    },
+                    payout: {
+                        select: {
+                            id: true,
+                            status: true,
+                            momoNumber: true,
+                        },
+                    },
+                },
+                orderBy: {
+                    createdAt: 'desc',
+                },
+                take: limit,
+                skip: offset,
+            }),
+            prisma.ledgerEntry.count({
+                where: { walletId: wallet.id },
+            }),
+        ]);
+
+        res.json({ entries, count: entries.length, total });
+    } catch (error) {
+        console.error('Get wallet entries error:', error);
+        res.status(500).json({ error: 'Failed to fetch wallet entries' });
+    }
+};
+
+/**
+ * ADMIN: Reconcile cached wallet balances against the ledger
+ */
+export const getLedgerReconciliation = async (_req: Request, res: Response) => {
+    try {
+        const report = await reconcileLedger(prisma);
+
+        const isBalanced =
+            report.driftedWallets.length === 0 &&
+            report.unbalancedJournals.length === 0 &&
+            report.mismatchedTransactions.length === 0;
+
+        res.json({ isBalanced, ...report });
+    } catch (error) {
+        console.error('Ledger reconciliation error:', error);
+        res.status(500).json({ error: 'Failed to reconcile ledger' });
+    }
+};
+
 /**
  * Get recycling transactions
  */
@@ -378,6 +771,7 @@ export const getTransactions = async (req: Request, res: Response) => {
             include: {
                 declaration: {
                     include: {
+                        material: true,
                         citizen: {
                             select: {
                                 phone: true,
@@ -402,7 +796,19 @@ export const getTransactions = async (req: Request, res: Response) => {
             },
         });
 
-        res.json({ transactions, count: transactions.length });
+        // List view gets pickup photo thumbnails
+        const transactionsWithThumbnails = await Promise.all(transactions.map(async t => ({
+            ...t,
+            declaration: {
+                ...t.declaration,
+                collection: t.declaration.collection && {
+                    ...t.declaration.collection,
+                    thumbnailUrl: (await signDumpPhoto(t.declaration.collection)).thumbnailUrl,
+                },
+            },
+        })));
+
+        res.json({ transactions: transactionsWithThumbnails, count: transactions.length });
     } catch (error) {
         console.error('Get transactions error:', error);
         res.status(500).json({ error: 'Failed to fetch transactions' });
@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../index';
+import { planRoute, RoutePoint } from '../utils/routePlanner';
+
+// Validation schemas
+const planRouteSchema = z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    dropOffAgencyId: z.string().uuid().optional(),
+    maxKgPerTrip: z.number().positive('Capacity must be positive').optional(),
+});
+
+/**
+ * COLLECTOR: Plan an ordered pickup route over own active claims.
+ * Declarations already picked up but not yet delivered are on board,
+ * so they count towards the load of the first trip.
+ */
+export const planPickupRoute = async (req: Request, res: Response) => {
+    try {
+        const data = planRouteSchema.parse(req.body);
+        const collectorId = req.user!.userId;
+
+        let dropOff: RoutePoint | undefined;
+        let dropOffAgency = null;
+
+        if (data.dropOffAgencyId) {
+            const agency = await prisma.user.findFirst({
+                where: { id: data.dropOffAgencyId, role: 'AGENCY', status: 'ACTIVE' },
+                select: { id: true, phone: true, profile: true },
+            });
+
+            if (!agency) {
+                return res.status(404).json({ error: 'Agency not found' });
+            }
+
+            if (agency.profile?.latitude == null || agency.profile?.longitude == null) {
+                return res.status(400).json({ error: 'Agency has not set its location' });
+            }
+
+            dropOff = { latitude: agency.profile.latitude, longitude: agency.profile.longitude };
+            dropOffAgency = agency;
+        }
+
+        const [claimed, onBoard] = await Promise.all([
+            prisma.wasteDeclaration.findMany({
+                where: {
+                    status: 'ASSIGNED',
+                    claimedById: collectorId,
+                    claimExpiresAt: { gt: new Date() },
+                },
+                include: { material: true },
+            }),
+            prisma.wasteDeclaration.findMany({
+                where: {
+                    status: 'PICKED_UP',
+                    collection: { collectorId, deliveryId: null },
+                },
+                select: { id: true, material: { select: { code: true } }, estimatedKg: true },
+            }),
+        ]);
+
+        const onBoardKg = onBoard.reduce((sum, d) => sum + d.estimatedKg, 0);
+
+        const plan = planRoute(
+            { latitude: data.latitude, longitude: data.longitude },
+            claimed.map(d => ({
+                id: d.id,
+                latitude: d.latitude,
+                longitude: d.longitude,
+                kg: d.estimatedKg,
+            })),
+            {
+                dropOff,
+                maxKgPerTrip: data.maxKgPerTrip,
+                initialLoadKg: onBoardKg,
+            }
+        );
+
+        // Attach declaration details to each stop
+        const declarationsById = new Map(claimed.map(d => [d.id, d]));
+        const trips = plan.trips.map(trip => ({
+            ...trip,
+            stops: trip.stops.map(stop => {
+                const declaration = declarationsById.get(stop.id)!;
+                return {
+                    declarationId: stop.id,
+                    wasteType: declaration.material.code,
+                    estimatedKg: declaration.estimatedKg,
+                    latitude: stop.latitude,
+                    longitude: stop.longitude,
+                    description: declaration.description,
+                    claimExpiresAt: declaration.claimExpiresAt,
+                    legDistance: stop.legDistance,
+                };
+            }),
+        }));
+
+        res.json({
+            trips,
+            totalDistance: plan.totalDistance,
+            stopCount: claimed.length,
+            onBoard: {
+                declarations: onBoard,
+                totalKg: onBoardKg,
+            },
+            dropOffAgency,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Plan route error:', error);
+        res.status(500).json({ error: 'Failed to plan route' });
+    }
+};
@@ -0,0 +1,219 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../index';
+import { refreshSite } from '../services/dumpSites';
+import { dumpGeohash } from '../services/dumpGeo';
+
+// Validation schemas
+const mergeSitesSchema = z.object({
+    siteIds: z.array(z.string().uuid()).min(1),
+});
+
+const splitSiteSchema = z.object({
+    reportIds: z.array(z.string().uuid()).min(1),
+});
+
+/**
+ * MUNICIPAL: Get dump sites
+ */
+export const getSites = async (req: Request, res: Response) => {
+    try {
+        const { status, size } = req.query;
+
+        let where: any = {};
+
+        if (status) {
+            where.status = status;
+        }
+
+        if (size) {
+            where.size = size;
+        }
+
+        const sites = await prisma.dumpSite.findMany({
+            where,
+            orderBy: {
+                lastReportedAt: 'desc',
+            },
+        });
+
+        res.json({ sites, count: sites.length });
+    } catch (error) {
+        console.error('Get sites error:', error);
+        res.status(500).json({ error: 'Failed to fetch dump sites' });
+    }
+};
+
+/**
+ * MUNICIPAL: Get a dump site with its reports
+ */
+export const getSiteById = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const site = await prisma.dumpSite.findUnique({
+            where: { id },
+            include: {
+                reports: {
+                    select: {
+                        id: true,
+                        latitude: true,
+                        longitude: true,
+                        size: true,
+                        status: true,
+                        description: true,
+                        createdAt: true,
+                        reporter: {
+                            select: {
+                                phone: true,
+                                profile: {
+                                    select: {
+                                        firstName: true,
+                                        lastName: true,
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    orderBy: {
+                        createdAt: 'asc',
+                    },
+                },
+            },
+        });
+
+        if (!site) {
+            return res.status(404).json({ error: 'Dump site not found' });
+        }
+
+        res.json({ site });
+    } catch (error) {
+        console.error('Get site by ID error:', error);
+        res.status(500).json({ error: 'Failed to fetch dump site' });
+    }
+};
+
+/**
+ * MUNICIPAL: Merge other sites into this one (the same dump reported as several sites)
+ */
+export const mergeSites = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const data = mergeSitesSchema.parse(req.body);
+
+        if (data.siteIds.includes(id)) {
+            return res.status(400).json({ error: 'A site cannot be merged into itself' });
+        }
+
+        const sites = await prisma.dumpSite.findMany({
+            where: { id: { in: [id, ...data.siteIds] } },
+            select: { id: true },
+        });
+
+        if (sites.length !== new Set([id, ...data.siteIds]).size) {
+            return res.status(404).json({ error: 'Dump site not found' });
+        }
+
+        const site = await prisma.$transaction(async (tx) => {
+            const moved = await tx.dumpReport.updateMany({
+                where: { siteId: { in: data.siteIds } },
+                data: { siteId: id },
+            });
+
+            await tx.dumpSite.deleteMany({
+                where: { id: { in: data.siteIds } },
+            });
+
+            const merged = await refreshSite(tx, id);
+
+            return { ...merged, reportsMoved: moved.count };
+        });
+
+        res.json({
+            message: `${data.siteIds.length} site(s) merged`,
+            site,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Merge sites error:', error);
+        res.status(500).json({ error: 'Failed to merge dump sites' });
+    }
+};
+
+/**
+ * MUNICIPAL: Move some reports of a site to a new site (distinct dumps grouped together)
+ */
+export const splitSite = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const data = splitSiteSchema.parse(req.body);
+
+        const site = await prisma.dumpSite.findUnique({
+            where: { id },
+            include: {
+                reports: {
+                    select: {
+                        id: true,
+                        latitude: true,
+                        longitude: true,
+                        size: true,
+                        createdAt: true,
+                    },
+                },
+            },
+        });
+
+        if (!site) {
+            return res.status(404).json({ error: 'Dump site not found' });
+        }
+
+        const reportIds = new Set(data.reportIds);
+        const splitReports = site.reports.filter(r => reportIds.has(r.id));
+
+        if (splitReports.length !== reportIds.size) {
+            return res.status(400).json({ error: 'All reports must belong to this site' });
+        }
+
+        if (splitReports.length === site.reports.length) {
+            return res.status(400).json({ error: 'At least one report must stay on the site' });
+        }
+
+        const result = await prisma.$transaction(async (tx) => {
+            // Placeholder values, recomputed from the moved reports just below
+            const first = splitReports[0];
+            const newSite = await tx.dumpSite.create({
+                data: {
+                    latitude: first.latitude,
+                    longitude: first.longitude,
+                    geohash: dumpGeohash(first.latitude, first.longitude),
+                    size: first.size,
+                    firstReportedAt: first.createdAt,
+                    lastReportedAt: first.createdAt,
+                },
+            });
+
+            await tx.dumpReport.updateMany({
+                where: { id: { in: data.reportIds }, siteId: id },
+                data: { siteId: newSite.id },
+            });
+
+            return {
+                site: await refreshSite(tx, id),
+                newSite: await refreshSite(tx, newSite.id),
+            };
+        });
+
+        res.status(201).json({
+            message: `${splitReports.length} report(s) moved to a new site`,
+            ...result,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        console.error('Split site error:', error);
+        res.status(500).json({ error: 'Failed to split dump site' });
+    }
+};
@@ -0,0 +1,243 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../index';
+import { decodeBase64Image, generatePerceptualHash, generatePhotoHash } from '../utils/photoHash';
+import { calculateDistance } from '../utils/geoUtils';
+import { extractPhotoMetadata } from '../utils/photoExif';
+import { isUniqueViolation } from '../utils/prismaErrors';
+import {
+    StoredDumpPhoto,
+    deleteDumpPhoto,
+    detectPhotoFormat,
+    storeDumpPhoto,
+} from '../services/dumpPhotos';
+import { GEO_CLUSTER_RADIUS } from '../services/dumpGeo';
+import {
+    addVerification,
+    verifyIfCorroborated,
+} from '../services/dumpVerification';
+import {
+    PHOTO_DUPLICATE_FLAG_DISTANCE,
+    PHOTO_DUPLICATE_REJECT_DISTANCE,
+    SimilarPhoto,
+    findSimilarPhotos,
+    perceptualHashBands,
+} from '../services/photoSimilarity';
+import { PHOTO_EXIF_MODE, checkPhotoMetadata } from '../services/photoMetadataCheck';
+
+// Validation schemas (coerced: multipart form fields arrive as strings)
+const confirmDumpSchema = z.object({
+    latitude: z.coerce.number().min(-90).max(90),
+    longitude: z.coerce.number().min(-180).max(180),
+    photoBase64: z.string().min(100).optional(),
+    notes: z.string().optional(),
+});
+
+const PHOTO_ALREADY_USED = {
+    error: 'Photo already used',
+    message: 'This photo has already been submitted. Please take a new photo.',
+};
+
+/**
+ * Confirm an existing dump from where it is ("I see this dump too"),
+ * optionally with a photo, without creating a new report.
+ * The photo goes through the same duplicate and EXIF checks as report photos;
+ * a suspicious one flags the dump for moderation.
+ */
+export const confirmDump = async (req: Request, res: Response) => {
+    let stored: StoredDumpPhoto | undefined;
+
+    try {
+        const { id } = req.params;
+        const data = confirmDumpSchema.parse(req.body);
+        const verifierId = req.user!.userId;
+
+        const dump = await prisma.dumpReport.findUnique({
+            where: { id },
+            include: {
+                verifications: {
+                    where: { verifierId },
+                },
+            },
+        });
+
+        if (!dump) {
+            return res.status(404).json({ error: 'Dump report not found' });
+        }
+
+        if (!['UNVERIFIED', 'VERIFIED', 'SCHEDULED', 'IN_PROGRESS'].includes(dump.status)) {
+            return res.status(400).json({
+                error: 'Invalid status',
+                message: `A ${dump.status} dump cannot be confirmed`
+            });
+        }
+
+        if (dump.verifications.length > 0) {
+            return res.status(400).json({ error: 'You have already reported or confirmed this dump' });
+        }
+
+        const distance = calculateDistance(data.latitude, data.longitude, dump.latitude, dump.longitude);
+
+        if (distance > GEO_CLUSTER_RADIUS) {
+            return res.status(400).json({
+                error: 'Too far from dump',
+                message: `You must be within ${GEO_CLUSTER_RADIUS}m of the dump (currently ${Math.round(distance)}m)`
+            });
+        }
+
+        const photo = req.file?.buffer
+            ?? (data.photoBase64 ? decodeBase64Image(data.photoBase64) : undefined);
+        let photoHash: string | undefined;
+        let perceptualHash: string | null = null;
+        let closest: SimilarPhoto | undefined;
+        let exifIssues: string[] = [];
+
+        if (photo) {
+            const format = await detectPhotoFormat(photo);
+
+            if (!format) {
+                return res.status(400).json({
+                    error: 'Invalid photo format',
+                    message: 'Send a JPEG, PNG or WebP image'
+                });
+            }
+
+            photoHash = generatePhotoHash(photo.toString('base64'));
+
+            const existingPhoto = await prisma.photoHash.findUnique({
+                where: { hash: photoHash },
+            });
+
+            if (existingPhoto) {
+                return res.status(400).json(PHOTO_ALREADY_USED);
+            }
+
+            // Photos without EXIF pass; only contradicting metadata counts
+            const metadata = await extractPhotoMetadata(photo);
+            exifIssues = checkPhotoMetadata(metadata, data.latitude, data.longitude).issues;
+
+            if (exifIssues.length > 0 && PHOTO_EXIF_MODE === 'reject') {
+                return res.status(400).json({
+                    error: 'Photo does not match confirmation',
+                    message: exifIssues.join('; ')
+                });
+            }
+
+            // Catch re-encoded, resized or lightly edited copies of earlier photos
+            try {
+                perceptualHash = await generatePerceptualHash(photo);
+            } catch {
+                return res.status(400).json({ error: 'Invalid photo format' });
+            }
+
+            const similarPhotos = perceptualHash
+                ? await findSimilarPhotos(prisma, perceptualHash, PHOTO_DUPLICATE_FLAG_DISTANCE)
+                : [];
+            closest = similarPhotos[0];
+
+            if (closest && closest.distance <= PHOTO_DUPLICATE_REJECT_DISTANCE) {
+                return res.status(400).json({
+                    error: 'Photo already used',
+                    message: 'A near-identical photo has already been submitted. Please take a new photo.'
+                });
+            }
+
+            stored = await storeDumpPhoto(photo, format);
+        }
+
+        const result = await prisma.$transaction(async (tx) => {
+            const added = await addVerification(tx, {
+                dumpReportId: id,
+                verifierId,
+                latitude: data.latitude,
+                longitude: data.longitude,
+                distance,
+                photoKey: stored?.photoKey,
+                thumbnailKey: stored?.thumbnailKey,
+                notes: data.notes,
+            });
+
+            if (!added) {
+                return null;
+            }
+
+            if (photoHash) {
+                await tx.photoHash.create({
+                    data: {
+                        hash: photoHash,
+                        perceptualHash,
+                        ...(perceptualHash && perceptualHashBands(perceptualHash)),
+                        uploadedBy: verifierId,
+                    },
+                });
+            }
+
+            // Similar but not identical photo: accept, but send the dump to moderation
+            if (closest) {
+                await tx.reportFlag.create({
+                    data: {
+                        dumpReportId: id,
+                        reason: 'DUPLICATE_PHOTO',
+                        notes: closest.dumpReportId
+                            ? `Confirmation photo similar to report ${closest.dumpReportId} (distance ${closest.distance}/64)`
+                            : `Confirmation photo similar to an earlier upload (distance ${closest.distance}/64)`,
+                    },
+                });
+            }
+
+            // Location or time contradicted by the photo (flag mode)
+            if (exifIssues.length > 0) {
+                await tx.reportFlag.create({
+                    data: {
+                        dumpReportId: id,
+                        reason: 'FAKE_LOCATION',
+                        notes: `Confirmation photo: ${exifIssues.join('; ')}`,
+                    },
+                });
+            }
+
+            const isNewlyVerified = await verifyIfCorroborated(tx, id, 'Confirmed by a user on site');
+
+            const verificationCount = await tx.dumpVerification.count({
+                where: { dumpReportId: id },
+            });
+
+            const updated = await tx.dumpReport.findUnique({
+                where: { id },
+                select: { status: true },
+            });
+
+            return { isNewlyVerified, verificationCount, isVerified: updated?.status !== 'UNVERIFIED' };
+        });
+
+        if (!result) {
+            return res.status(409).json({ error: 'You have already reported or confirmed this dump' });
+        }
+
+        // The verification is saved, so the photo is no longer an orphan
+        stored = undefined;
+
+        res.status(201).json({
+            message: result.isNewlyVerified
+                ? 'Dump confirmed and now verified'
+                : 'Dump confirmed',
+            distance: Math.round(distance),
+            verificationCount: result.verificationCount,
+            isVerified: result.isVerified,
+        });
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return res.status(400).json({ error: 'Validation failed', details: error.errors });
+        }
+        // The same photo was submitted concurrently, after the check above
+        if (isUniqueViolation(error, 'hash')) {
+            return res.status(400).json(PHOTO_ALREADY_USED);
+        }
+        console.error('Confirm dump error:', error);
+        res.status(500).json({ error: 'Failed to confirm dump' });
+    } finally {
+        if (stored) {
+            await deleteDumpPhoto(stored);
+        }
+    }
+};
@@ -14,6 +14,12 @@ import authRoutes from './routes/auth.routes';
 import recyclingRoutes from './routes/recycling.routes';
 import dumpsRoutes from './routes/dumps.routes';
 import municipalRoutes from './routes/municipal.routes';
+import photosRoutes from './routes/photos.routes';
+import adminRoutes from './routes/admin.routes';
+
+// Import background jobs
+import { startClaimExpiryJob } from './jobs/claimExpiry';
+import { startReputationDecayJob } from './jobs/reputationDecay';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -36,6 +42,8 @@ app.use('/api/auth', authRoutes);
 app.use('/api/recycling', recyclingRoutes);
 app.use('/api/dumps', dumpsRoutes);
 app.use('/api/municipal', municipalRoutes);
+app.use('/api/photos', photosRoutes);
+app.use('/api/admin', adminRoutes);
 
 // 404 handler
 app.use((_req, res) => {
@@ -58,6 +66,9 @@ async function main() {
         await prisma.$connect();
         console.log('✅ Database connected successfully');
 
+        startClaimExpiryJob(prisma);
+        startReputationDecayJob(prisma);
+
         app.listen(PORT, () => {
             console.log(`🚀 CityLink API running on port ${PORT}`);
             console.log(`📊 Environment: ${process.env.NODE_ENV}`);
@@ -0,0 +1,25 @@
+import { PrismaClient } from '@prisma/client';
+import { releaseExpiredClaims } from '../services/claims';
+
+const CLAIM_SWEEP_INTERVAL_SECONDS = parseInt(process.env.CLAIM_SWEEP_INTERVAL_SECONDS || '60');
+
+/**
+ * Periodically release stale collector claims
+ */
+export function startClaimExpiryJob(prisma: PrismaClient): NodeJS.Timeout {
+    const timer = setInterval(async () => {
+        try {
+            const released = await releaseExpiredClaims(prisma);
+            if (released > 0) {
+                console.log(`⏱️  Released ${released} expired declaration claim(s)`);
+            }
+        } catch (error) {
+            console.error('Claim expiry job error:', error);
+        }
+    }, CLAIM_SWEEP_INTERVAL_SECONDS * 1000);
+
+    // Do not keep the process alive just for this job
+    timer.unref();
+
+    return timer;
+}
@@ -0,0 +1,29 @@
+import { PrismaClient } from '@prisma/client';
+import { decayInactiveScores } from '../services/reputation';
+
+const REPUTATION_DECAY_SWEEP_HOURS = parseFloat(process.env.REPUTATION_DECAY_SWEEP_HOURS || '24');
+
+/**
+ * Periodically decay the reputation of inactive users
+ */
+export function startReputationDecayJob(prisma: PrismaClient): NodeJS.Timeout {
+    const sweep = async () => {
+        try {
+            const decayed = await decayInactiveScores(prisma);
+            if (decayed > 0) {
+                console.log(`📉 Decayed ${decayed} inactive reputation score(s)`);
+            }
+        } catch (error) {
+            console.error('Reputation decay job error:', error);
+        }
+    };
+
+    // Also sweep on startup, so frequent restarts don't postpone decay indefinitely
+    void sweep();
+    const timer = setInterval(sweep, REPUTATION_DECAY_SWEEP_HOURS * 3600 * 1000);
+
+    // Do not keep the process alive just for this job
+    timer.unref();
+
+    return timer;
+}
@@ -2,11 +2,8 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../index';
 import { Role } from '@prisma/client';
-
-interface JwtPayload {
-    userId: string;
-    role: Role;
-}
+import { AccessTokenPayload } from '../services/sessions';
+import { INACTIVE_ACCOUNT_ERRORS } from '../services/accounts';
 
 // Extend Express Request type to include user
 declare global {
@@ -15,6 +12,8 @@ declare global {
             user?: {
                 userId: string;
                 role: Role;
+                sessionId: string;
+                phoneVerified: boolean;
             };
         }
     }
@@ -35,31 +34,48 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
             throw new Error('JWT_SECRET not configured');
         }
 
-        const decoded = jwt.verify(token, secret) as JwtPayload;
+        const decoded = jwt.verify(token, secret) as AccessTokenPayload;
 
-        // Verify user still exists
-        const user = await prisma.user.findUnique({
-            where: { id: decoded.userId },
-            select: { id: true, role: true },
+        // Tokens issued before sessions existed carry no session and are no longer accepted
+        if (!decoded.sessionId) {
+            return res.status(401).json({ error: 'Session expired' });
+        }
+
+        // Verify the session is still active and its user still exists
+        const session = await prisma.session.findUnique({
+            where: { id: decoded.sessionId },
+            select: {
+                revokedAt: true,
+                user: {
+                    select: { id: true, role: true, status: true, phoneVerifiedAt: true },
+                },
+            },
         });
 
-        if (!user) {
-            return res.status(401).json({ error: 'User not found' });
+        if (!session || session.revokedAt || session.user.id !== decoded.userId) {
+            return res.status(401).json({ error: 'Session revoked' });
+        }
+
+        if (session.user.status !== 'ACTIVE') {
+            return res.status(403).json({ error: INACTIVE_ACCOUNT_ERRORS[session.user.status] });
         }
 
         req.user = {
-            userId: user.id,
-            role: user.role,
+            userId: session.user.id,
+            role: session.user.role,
+            sessionId: decoded.sessionId,
+            phoneVerified: session.user.phoneVerifiedAt !== null,
         };
 
         next();
     } catch (error) {
-        if (error instanceof jwt.JsonWebTokenError) {
-            return res.status(401).json({ error: 'Invalid token' });
-        }
+        // TokenExpiredError extends JsonWebTokenError, so check it first
         if (error instanceof jwt.TokenExpiredError) {
             return res.status(401).json({ error: 'Token expired' });
         }
+        if (error instanceof jwt.JsonWebTokenError) {
+            return res.status(401).json({ error: 'Invalid token' });
+        }
         return res.status(500).json({ error: 'Authentication failed' });
     }
 };
@@ -80,3 +96,22 @@ export const requireRole = (...allowedRoles: Role[]) => {
         next();
     };
 };
+
+/**
+ * Only let through users who verified their phone number
+ * (payouts are sent to it by default)
+ */
+export const requireVerifiedPhone = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    if (!req.user.phoneVerified) {
+        return res.status(403).json({
+            error: 'Phone not verified',
+            message: 'Verify your phone number with POST /api/auth/phone/verify first'
+        });
+    }
+
+    next();
+};
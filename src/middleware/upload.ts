@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+
+const MAX_FILE_SIZE = parseInt(process.env.MAX_FILE_SIZE || '10485760'); // 10MB
+
+// Files stay in memory: they are hashed and resized before being sent to storage
+const photoUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: MAX_FILE_SIZE,
+        files: 1,
+    },
+    fileFilter: (_req, file, cb) => {
+        if (!file.mimetype.startsWith('image/')) {
+            return cb(new multer.MulterError('LIMIT_UNEXPECTED_FILE', file.fieldname));
+        }
+        cb(null, true);
+    },
+});
+
+/**
+ * Accept an optional single image in the multipart field `field`.
+ * JSON requests pass straight through.
+ */
+export const uploadPhoto = (field: string) => {
+    const handler = photoUpload.single(field);
+
+    return (req: Request, res: Response, next: NextFunction) => {
+        handler(req, res, (error: unknown) => {
+            if (error instanceof multer.MulterError) {
+                return res.status(400).json({
+                    error: 'Invalid upload',
+                    message: error.code === 'LIMIT_FILE_SIZE'
+                        ? `Photo must be at most ${MAX_FILE_SIZE} bytes`
+                        : `Send a single image in the "${field}" field`
+                });
+            }
+            next(error);
+        });
+    };
+};
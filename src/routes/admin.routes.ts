@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import {
+    getUsers,
+    inviteUser,
+    approveUser,
+    suspendUser,
+    reactivateUser,
+} from '../controllers/admin.controller';
+import { authenticate, requireRole } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require ADMIN role
+router.use(authenticate);
+router.use(requireRole('ADMIN'));
+
+/**
+ * @route   GET /api/admin/users
+ * @desc    List users, optionally by role and status
+ * @access  ADMIN only
+ */
+router.get('/users', getUsers);
+
+/**
+ * @route   POST /api/admin/users
+ * @desc    Invite a COLLECTOR, AGENCY or MUNICIPAL user (they set their password by SMS code)
+ * @access  ADMIN only
+ */
+router.post('/users', inviteUser);
+
+/**
+ * @route   POST /api/admin/users/:id/approve
+ * @desc    Approve a self-registered collector
+ * @access  ADMIN only
+ */
+router.post('/users/:id/approve', approveUser);
+
+/**
+ * @route   POST /api/admin/users/:id/suspend
+ * @desc    Suspend a user and revoke all their sessions
+ * @access  ADMIN only
+ */
+router.post('/users/:id/suspend', suspendUser);
+
+/**
+ * @route   POST /api/admin/users/:id/reactivate
+ * @desc    Reactivate a suspended user
+ * @access  ADMIN only
+ */
+router.post('/users/:id/reactivate', reactivateUser);
+
+export default router;
@@ -1,5 +1,20 @@
 import { Router } from 'express';
-import { register, login, getCurrentUser } from '../controllers/auth.controller';
+import {
+    register,
+    login,
+    refresh,
+    logout,
+    getSessions,
+    revokeUserSession,
+    revokeOtherSessions,
+    requestPhoneVerification,
+    verifyPhone,
+    changePassword,
+    forgotPassword,
+    resetPassword,
+    getCurrentUser,
+    updateProfile,
+} from '../controllers/auth.controller';
 import { authenticate } from '../middleware/auth';
 
 const router = Router();
@@ -18,6 +33,76 @@ router.post('/register', register);
  */
 router.post('/login', login);
 
+/**
+ * @route   POST /api/auth/refresh
+ * @desc    Exchange a refresh token for a new access token and refresh token
+ * @access  Public (refresh token)
+ */
+router.post('/refresh', refresh);
+
+/**
+ * @route   POST /api/auth/password/forgot
+ * @desc    Send a password reset code to a registered phone by SMS
+ * @access  Public
+ */
+router.post('/password/forgot', forgotPassword);
+
+/**
+ * @route   POST /api/auth/password/reset
+ * @desc    Set a new password with a reset code (signs out every device)
+ * @access  Public (reset code)
+ */
+router.post('/password/reset', resetPassword);
+
+/**
+ * @route   PUT /api/auth/password
+ * @desc    Change the password (signs out every other device)
+ * @access  Private
+ */
+router.put('/password', authenticate, changePassword);
+
+/**
+ * @route   POST /api/auth/logout
+ * @desc    Revoke the current session
+ * @access  Private
+ */
+router.post('/logout', authenticate, logout);
+
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List the devices the user is signed in on
+ * @access  Private
+ */
+router.get('/sessions', authenticate, getSessions);
+
+/**
+ * @route   DELETE /api/auth/sessions
+ * @desc    Revoke every session except the current one
+ * @access  Private
+ */
+router.delete('/sessions', authenticate, revokeOtherSessions);
+
+/**
+ * @route   DELETE /api/auth/sessions/:id
+ * @desc    Revoke one of the user's sessions
+ * @access  Private
+ */
+router.delete('/sessions/:id', authenticate, revokeUserSession);
+
+/**
+ * @route   POST /api/auth/phone/request-code
+ * @desc    Send a verification code to the user's phone by SMS
+ * @access  Private
+ */
+router.post('/phone/request-code', authenticate, requestPhoneVerification);
+
+/**
+ * @route   POST /api/auth/phone/verify
+ * @desc    Verify the user's phone with the code sent to it
+ * @access  Private
+ */
+router.post('/phone/verify', authenticate, verifyPhone);
+
 /**
  * @route   GET /api/auth/me
  * @desc    Get current user
@@ -25,4 +110,11 @@ router.post('/login', login);
  */
 router.get('/me', authenticate, getCurrentUser);
 
+/**
+ * @route   PUT /api/auth/profile
+ * @desc    Update current user profile (agencies set their location here)
+ * @access  Private
+ */
+router.put('/profile', authenticate, updateProfile);
+
 export default router;
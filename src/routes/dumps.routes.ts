@@ -2,10 +2,17 @@ import { Router } from 'express';
 import {
     reportDump,
     getDumps,
+    getNearbyDumps,
     getDumpById,
+    getDumpPhoto,
     getUserReputation,
 } from '../controllers/dumps.controller';
+import { getLeaderboard } from '../controllers/leaderboard.controller';
+import { confirmCleanup, contestCleanup } from '../controllers/cleanup.controller';
+import { flagReport } from '../controllers/moderation.controller';
+import { confirmDump } from '../controllers/verifications.controller';
 import { authenticate } from '../middleware/auth';
+import { uploadPhoto } from '../middleware/upload';
 
 const router = Router();
 
@@ -14,10 +21,10 @@ router.use(authenticate);
 
 /**
  * @route   POST /api/dumps/report
- * @desc    Submit a dump report with photo
+ * @desc    Submit a dump report with photo (multipart "photo" file, or legacy JSON photoBase64)
  * @access  All authenticated users
  */
-router.post('/report', reportDump);
+router.post('/report', uploadPhoto('photo'), reportDump);
 
 /**
  * @route   GET /api/dumps
@@ -26,6 +33,20 @@ router.post('/report', reportDump);
  */
 router.get('/', getDumps);
 
+/**
+ * @route   GET /api/dumps/nearby
+ * @desc    Get dump reports around a location, nearest first
+ * @access  All authenticated users
+ */
+router.get('/nearby', getNearbyDumps);
+
+/**
+ * @route   GET /api/dumps/leaderboard
+ * @desc    Get top reporters for a period (WEEKLY, MONTHLY, ALL_TIME), optionally in one city
+ * @access  All authenticated users
+ */
+router.get('/leaderboard', getLeaderboard);
+
 /**
  * @route   GET /api/dumps/:id
  * @desc    Get single dump report with full details
@@ -33,6 +54,41 @@ router.get('/', getDumps);
  */
 router.get('/:id', getDumpById);
 
+/**
+ * @route   GET /api/dumps/:id/photo
+ * @desc    Get signed, time-limited URLs for a dump photo and its thumbnail
+ * @access  All authenticated users
+ */
+router.get('/:id/photo', getDumpPhoto);
+
+/**
+ * @route   POST /api/dumps/:id/confirm
+ * @desc    Confirm an existing dump on site, optionally with a photo (multipart "photo" or JSON photoBase64)
+ * @access  All authenticated users (within GEO_CLUSTER_RADIUS of the dump)
+ */
+router.post('/:id/confirm', uploadPhoto('photo'), confirmDump);
+
+/**
+ * @route   POST /api/dumps/:id/flag
+ * @desc    Flag a dump report for moderation
+ * @access  All authenticated users (except the reporter)
+ */
+router.post('/:id/flag', flagReport);
+
+/**
+ * @route   POST /api/dumps/:id/cleanup/confirm
+ * @desc    Reporter confirms a dump was cleaned, optionally with a photo (multipart "photo" or JSON photoBase64)
+ * @access  Reporters of the dump
+ */
+router.post('/:id/cleanup/confirm', uploadPhoto('photo'), confirmCleanup);
+
+/**
+ * @route   POST /api/dumps/:id/cleanup/contest
+ * @desc    Reporter contests a cleanup, reopening the dump (notes and/or a photo, as for confirm)
+ * @access  Reporters of the dump
+ */
+router.post('/:id/cleanup/contest', uploadPhoto('photo'), contestCleanup);
+
 /**
  * @route   GET /api/dumps/reputation
  * @desc    Get user reputation score
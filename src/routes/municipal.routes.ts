@@ -3,8 +3,13 @@ import {
     getHeatmap,
     getDensity,
     getVerifiedDumps,
+    getRecyclingStats,
 } from '../controllers/municipal.controller';
+import { updateDumpStatus } from '../controllers/cleanup.controller';
+import { getModerationQueue, moderateReport } from '../controllers/moderation.controller';
+import { getSites, getSiteById, mergeSites, splitSite } from '../controllers/sites.controller';
 import { authenticate, requireRole } from '../middleware/auth';
+import { uploadPhoto } from '../middleware/upload';
 
 const router = Router();
 
@@ -33,4 +38,60 @@ router.get('/density', getDensity);
  */
 router.get('/dumps', getVerifiedDumps);
 
+/**
+ * @route   POST /api/municipal/dumps/:id/status
+ * @desc    Mark a verified dump as scheduled, in progress or cleaned (after photo as multipart "afterPhoto" or JSON afterPhotoBase64)
+ * @access  MUNICIPAL only
+ */
+router.post('/dumps/:id/status', uploadPhoto('afterPhoto'), updateDumpStatus);
+
+/**
+ * @route   GET /api/municipal/sites
+ * @desc    Get dump sites (one per physical dump)
+ * @access  MUNICIPAL only
+ */
+router.get('/sites', getSites);
+
+/**
+ * @route   GET /api/municipal/sites/:id
+ * @desc    Get a dump site with its reports
+ * @access  MUNICIPAL only
+ */
+router.get('/sites/:id', getSiteById);
+
+/**
+ * @route   POST /api/municipal/sites/:id/merge
+ * @desc    Merge other sites into this one
+ * @access  MUNICIPAL only
+ */
+router.post('/sites/:id/merge', mergeSites);
+
+/**
+ * @route   POST /api/municipal/sites/:id/split
+ * @desc    Move some of a site's reports to a new site
+ * @access  MUNICIPAL only
+ */
+router.post('/sites/:id/split', splitSite);
+
+/**
+ * @route   GET /api/municipal/moderation
+ * @desc    Get flagged reports, most flagged first
+ * @access  MUNICIPAL only
+ */
+router.get('/moderation', getModerationQueue);
+
+/**
+ * @route   POST /api/municipal/moderation/:id
+ * @desc    Mark a flagged report false or dismiss its flags
+ * @access  MUNICIPAL only
+ */
+router.post('/moderation/:id', moderateReport);
+
+/**
+ * @route   GET /api/municipal/recycling
+ * @desc    Get recycling volumes and values per material
+ * @access  MUNICIPAL only
+ */
+router.get('/recycling', getRecyclingStats);
+
 export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { servePhoto } from '../controllers/photos.controller';
+
+const router = Router();
+
+/**
+ * @route   GET /api/photos/:key
+ * @desc    Serve a locally stored photo (local storage driver only)
+ * @access  Public, with a signed URL from the dumps API
+ */
+router.get('/*', servePhoto);
+
+export default router;
@@ -1,13 +1,47 @@
 import { Router } from 'express';
 import {
     declareWaste,
+    claimDeclaration,
+    releaseClaim,
     confirmPickup,
     validateWeight,
     getDeclarations,
     getWallet,
+    getWalletEntries,
+    getLedgerReconciliation,
     getTransactions,
 } from '../controllers/recycling.controller';
-import { authenticate, requireRole } from '../middleware/auth';
+import { planPickupRoute } from '../controllers/routePlanning.controller';
+import {
+    createDelivery,
+    getDeliveries,
+    validateDelivery,
+} from '../controllers/deliveries.controller';
+import {
+    openDispute,
+    getDisputes,
+    resolveDispute,
+} from '../controllers/disputes.controller';
+import {
+    requestPayout,
+    getPayouts,
+    approvePayout,
+    rejectPayout,
+} from '../controllers/payouts.controller';
+import {
+    publishPrice,
+    getMyPrices,
+    getNearbyPrices,
+    publishSplitPolicy,
+    getMySplitPolicies,
+} from '../controllers/prices.controller';
+import {
+    getMaterials,
+    createMaterial,
+    updateMaterial,
+} from '../controllers/materials.controller';
+import { authenticate, requireRole, requireVerifiedPhone } from '../middleware/auth';
+import { uploadPhoto } from '../middleware/upload';
 
 const router = Router();
 
@@ -17,16 +51,37 @@ router.use(authenticate);
 /**
  * @route   POST /api/recycling/declare
  * @desc    Citizen declares waste for collection
- * @access  CITIZEN only
+ * @access  CITIZEN only (verified phone)
+ */
+router.post('/declare', requireRole('CITIZEN'), requireVerifiedPhone, declareWaste);
+
+/**
+ * @route   POST /api/recycling/claim/:id
+ * @desc    Collector reserves a PENDING declaration for a limited time
+ * @access  COLLECTOR only
+ */
+router.post('/claim/:id', requireRole('COLLECTOR'), claimDeclaration);
+
+/**
+ * @route   DELETE /api/recycling/claim/:id
+ * @desc    Collector releases an own claim
+ * @access  COLLECTOR only
+ */
+router.delete('/claim/:id', requireRole('COLLECTOR'), releaseClaim);
+
+/**
+ * @route   POST /api/recycling/route
+ * @desc    Collector plans an ordered pickup route over own claims
+ * @access  COLLECTOR only
  */
-router.post('/declare', requireRole('CITIZEN'), declareWaste);
+router.post('/route', requireRole('COLLECTOR'), planPickupRoute);
 
 /**
  * @route   POST /api/recycling/pickup/:id
  * @desc    Collector confirms pickup of declared waste
  * @access  COLLECTOR only
  */
-router.post('/pickup/:id', requireRole('COLLECTOR'), confirmPickup);
+router.post('/pickup/:id', requireRole('COLLECTOR'), uploadPhoto('photo'), confirmPickup);
 
 /**
  * @route   POST /api/recycling/validate/:id
@@ -35,6 +90,83 @@ router.post('/pickup/:id', requireRole('COLLECTOR'), confirmPickup);
  */
 router.post('/validate/:id', requireRole('AGENCY'), validateWeight);
 
+/**
+ * @route   POST /api/recycling/deliveries
+ * @desc    Collector drops off several picked-up declarations at an agency
+ * @access  COLLECTOR only
+ */
+router.post('/deliveries', requireRole('COLLECTOR'), createDelivery);
+
+/**
+ * @route   GET /api/recycling/deliveries
+ * @desc    Get deliveries made (collector) or received (agency)
+ * @access  COLLECTOR, AGENCY
+ */
+router.get('/deliveries', requireRole('COLLECTOR', 'AGENCY'), getDeliveries);
+
+/**
+ * @route   POST /api/recycling/deliveries/:id/validate
+ * @desc    Agency validates a delivery from its total weight
+ * @access  AGENCY only
+ */
+router.post('/deliveries/:id/validate', requireRole('AGENCY'), validateDelivery);
+
+/**
+ * @route   GET /api/recycling/materials
+ * @desc    Get the material catalog
+ * @access  All authenticated users
+ */
+router.get('/materials', getMaterials);
+
+/**
+ * @route   POST /api/recycling/materials
+ * @desc    Add a material to the catalog
+ * @access  ADMIN only
+ */
+router.post('/materials', requireRole('ADMIN'), createMaterial);
+
+/**
+ * @route   PUT /api/recycling/materials/:id
+ * @desc    Update or deactivate a material
+ * @access  ADMIN only
+ */
+router.put('/materials/:id', requireRole('ADMIN'), updateMaterial);
+
+/**
+ * @route   POST /api/recycling/prices
+ * @desc    Agency publishes a new price per kg for a waste type
+ * @access  AGENCY only
+ */
+router.post('/prices', requireRole('AGENCY'), publishPrice);
+
+/**
+ * @route   GET /api/recycling/prices/mine
+ * @desc    Agency price history and current prices
+ * @access  AGENCY only
+ */
+router.get('/prices/mine', requireRole('AGENCY'), getMyPrices);
+
+/**
+ * @route   GET /api/recycling/prices/nearby
+ * @desc    Current prices of agencies near a location
+ * @access  All authenticated users
+ */
+router.get('/prices/nearby', getNearbyPrices);
+
+/**
+ * @route   POST /api/recycling/split-policies
+ * @desc    Agency publishes a revenue split policy (percentages must sum to 100)
+ * @access  AGENCY only
+ */
+router.post('/split-policies', requireRole('AGENCY'), publishSplitPolicy);
+
+/**
+ * @route   GET /api/recycling/split-policies/mine
+ * @desc    Agency split policy history and policies in force
+ * @access  AGENCY only
+ */
+router.get('/split-policies/mine', requireRole('AGENCY'), getMySplitPolicies);
+
 /**
  * @route   GET /api/recycling/declarations
  * @desc    Get waste declarations (filtered by role)
@@ -42,6 +174,27 @@ router.post('/validate/:id', requireRole('AGENCY'), validateWeight);
  */
 router.get('/declarations', requireRole('CITIZEN', 'COLLECTOR', 'AGENCY'), getDeclarations);
 
+/**
+ * @route   POST /api/recycling/declarations/:id/dispute
+ * @desc    Dispute the weight confirmed by the agency (within the dispute window)
+ * @access  CITIZEN, COLLECTOR
+ */
+router.post('/declarations/:id/dispute', requireRole('CITIZEN', 'COLLECTOR'), uploadPhoto('evidencePhoto'), openDispute);
+
+/**
+ * @route   GET /api/recycling/disputes
+ * @desc    Get weight disputes (own disputes, or all for arbitrators)
+ * @access  CITIZEN, COLLECTOR, MUNICIPAL, ADMIN
+ */
+router.get('/disputes', requireRole('CITIZEN', 'COLLECTOR', 'MUNICIPAL', 'ADMIN'), getDisputes);
+
+/**
+ * @route   POST /api/recycling/disputes/:id/resolve
+ * @desc    Arbitrate a dispute, optionally adjusting the weight and wallets
+ * @access  MUNICIPAL, ADMIN
+ */
+router.post('/disputes/:id/resolve', requireRole('MUNICIPAL', 'ADMIN'), resolveDispute);
+
 /**
  * @route   GET /api/recycling/wallet
  * @desc    Get user wallet balance
@@ -49,6 +202,20 @@ router.get('/declarations', requireRole('CITIZEN', 'COLLECTOR', 'AGENCY'), getDe
  */
 router.get('/wallet', requireRole('CITIZEN', 'COLLECTOR'), getWallet);
 
+/**
+ * @route   GET /api/recycling/wallet/entries
+ * @desc    Get wallet ledger history
+ * @access  CITIZEN, COLLECTOR
+ */
+router.get('/wallet/entries', requireRole('CITIZEN', 'COLLECTOR'), getWalletEntries);
+
+/**
+ * @route   GET /api/recycling/ledger/reconciliation
+ * @desc    Flag wallets whose cached balance drifted from the ledger
+ * @access  ADMIN only
+ */
+router.get('/ledger/reconciliation', requireRole('ADMIN'), getLedgerReconciliation);
+
 /**
  * @route   GET /api/recycling/transactions
  * @desc    Get recycling transactions
@@ -56,4 +223,32 @@ router.get('/wallet', requireRole('CITIZEN', 'COLLECTOR'), getWallet);
  */
 router.get('/transactions', requireRole('CITIZEN', 'COLLECTOR'), getTransactions);
 
+/**
+ * @route   POST /api/recycling/payouts
+ * @desc    Request a mobile-money payout (reserves wallet funds)
+ * @access  CITIZEN, COLLECTOR (verified phone)
+ */
+router.post('/payouts', requireRole('CITIZEN', 'COLLECTOR'), requireVerifiedPhone, requestPayout);
+
+/**
+ * @route   GET /api/recycling/payouts
+ * @desc    Get payouts (own payouts, or all payouts for operators)
+ * @access  CITIZEN, COLLECTOR, ADMIN
+ */
+router.get('/payouts', requireRole('CITIZEN', 'COLLECTOR', 'ADMIN'), getPayouts);
+
+/**
+ * @route   POST /api/recycling/payouts/:id/approve
+ * @desc    Approve a payout and send it to the mobile-money provider
+ * @access  ADMIN only
+ */
+router.post('/payouts/:id/approve', requireRole('ADMIN'), approvePayout);
+
+/**
+ * @route   POST /api/recycling/payouts/:id/reject
+ * @desc    Reject a pending payout and refund the wallet
+ * @access  ADMIN only
+ */
+router.post('/payouts/:id/reject', requireRole('ADMIN'), rejectPayout);
+
 export default router;
@@ -0,0 +1,43 @@
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+import { awardRecyclingBadges, awardReportBadges } from '../services/badges';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+/**
+ * One-off: award the milestone badges users reached before badges existed.
+ * Safe to re-run.
+ */
+async function main() {
+    let awarded = 0;
+
+    const scores = await prisma.reputationScore.findMany({
+        where: { verifiedReports: { gt: 0 } },
+        select: { userId: true, verifiedReports: true },
+    });
+
+    for (const score of scores) {
+        awarded += (await awardReportBadges(prisma, score.userId, score.verifiedReports)).length;
+    }
+
+    const citizens = await prisma.wasteDeclaration.findMany({
+        where: { status: 'COMPLETED' },
+        select: { citizenId: true },
+        distinct: ['citizenId'],
+    });
+
+    for (const citizen of citizens) {
+        awarded += (await awardRecyclingBadges(prisma, citizen.citizenId)).length;
+    }
+
+    console.log(`✅ ${awarded} badge(s) awarded`);
+}
+
+main()
+    .catch((error) => {
+        console.error('❌ Failed to award badges:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
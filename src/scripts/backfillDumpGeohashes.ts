@@ -0,0 +1,46 @@
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+import { dumpGeohash } from '../services/dumpGeo';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 500;
+
+/**
+ * One-off: compute geohashes for dump reports created before the column
+ * existed. Until then those reports are invisible to clustering, the
+ * heatmap area filter and nearby searches. Safe to re-run.
+ */
+async function main() {
+    let updated = 0;
+
+    for (;;) {
+        const dumps = await prisma.dumpReport.findMany({
+            where: { geohash: null },
+            select: { id: true, latitude: true, longitude: true },
+            take: BATCH_SIZE,
+        });
+
+        if (dumps.length === 0) break;
+
+        await prisma.$transaction(
+            dumps.map(d => prisma.dumpReport.update({
+                where: { id: d.id },
+                data: { geohash: dumpGeohash(d.latitude, d.longitude) },
+            }))
+        );
+
+        updated += dumps.length;
+    }
+
+    console.log(`✅ ${updated} dump report(s) geohashed`);
+}
+
+main()
+    .catch((error) => {
+        console.error('❌ Failed to backfill dump geohashes:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
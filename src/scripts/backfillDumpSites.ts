@@ -0,0 +1,51 @@
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+import { attachToSite } from '../services/dumpSites';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 100;
+
+/**
+ * One-off: group dump reports created before dump sites existed into sites,
+ * oldest first, the same way new reports are grouped. Run after
+ * dumps:backfill-geohash. Safe to re-run.
+ */
+async function main() {
+    let attached = 0;
+
+    for (;;) {
+        const reports = await prisma.dumpReport.findMany({
+            where: { siteId: null },
+            select: {
+                id: true,
+                latitude: true,
+                longitude: true,
+                size: true,
+                createdAt: true,
+            },
+            orderBy: { createdAt: 'asc' },
+            take: BATCH_SIZE,
+        });
+
+        if (reports.length === 0) break;
+
+        for (const report of reports) {
+            await prisma.$transaction((tx) => attachToSite(tx, report));
+            attached++;
+        }
+    }
+
+    const sites = await prisma.dumpSite.count();
+
+    console.log(`✅ ${attached} report(s) grouped, ${sites} site(s) in total`);
+}
+
+main()
+    .catch((error) => {
+        console.error('❌ Failed to group dump reports into sites:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
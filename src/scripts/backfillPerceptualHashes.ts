@@ -0,0 +1,83 @@
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+import { decodeBase64Image, generatePerceptualHash } from '../utils/photoHash';
+import { getStorageDriver } from '../services/storage';
+import { perceptualHashBands } from '../services/photoSimilarity';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 100;
+
+/**
+ * One-off: compute perceptual hashes for dump photos uploaded before they
+ * existed, and the bands of hashes stored before those existed, so
+ * near-duplicate detection also covers older reports. Safe to re-run.
+ */
+async function main() {
+    // Hashes without bands don't need their photo: split them in place
+    const unbanded = await prisma.photoHash.findMany({
+        where: { perceptualHash: { not: null }, phashBand0: null },
+        select: { hash: true, perceptualHash: true },
+    });
+
+    for (let i = 0; i < unbanded.length; i += BATCH_SIZE) {
+        await prisma.$transaction(
+            unbanded.slice(i, i + BATCH_SIZE).map(p => prisma.photoHash.update({
+                where: { hash: p.hash },
+                data: perceptualHashBands(p.perceptualHash!),
+            }))
+        );
+    }
+
+    const pending = await prisma.photoHash.findMany({
+        where: { perceptualHash: null },
+        select: { hash: true },
+    });
+
+    let updated = 0;
+    let skipped = 0;
+
+    for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+        const hashes = pending.slice(i, i + BATCH_SIZE).map(p => p.hash);
+
+        // Only dump photos are compared; pickup and cleanup photos keep the exact hash only
+        const dumps = await prisma.dumpReport.findMany({
+            where: { photoHash: { in: hashes } },
+            select: { id: true, photoHash: true, photoUrl: true, photoKey: true },
+        });
+
+        for (const dump of dumps) {
+            try {
+                const photo = dump.photoKey
+                    ? await getStorageDriver().get(dump.photoKey)
+                    : decodeBase64Image(dump.photoUrl ?? '');
+                const perceptualHash = await generatePerceptualHash(photo);
+
+                if (!perceptualHash) {
+                    skipped++;
+                    continue;
+                }
+
+                await prisma.photoHash.update({
+                    where: { hash: dump.photoHash },
+                    data: { perceptualHash, ...perceptualHashBands(perceptualHash) },
+                });
+                updated++;
+            } catch {
+                console.warn(`Skipping report ${dump.id}: photo could not be decoded`);
+                skipped++;
+            }
+        }
+    }
+
+    console.log(`✅ ${unbanded.length} hash(es) split into bands, ${updated} photo(s) hashed, ${skipped} skipped`);
+}
+
+main()
+    .catch((error) => {
+        console.error('❌ Failed to backfill perceptual hashes:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
@@ -0,0 +1,53 @@
+import dotenv from 'dotenv';
+import bcrypt from 'bcryptjs';
+import { PrismaClient } from '@prisma/client';
+import { accountCreateData } from '../services/accounts';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+const ADMIN_PASSWORD_MIN_LENGTH = 12;
+
+/**
+ * Create an ADMIN account, the only role that can't be registered or invited.
+ * Usage: npm run admin:create -- <phone> <password>
+ */
+async function main() {
+    const [phone, password] = process.argv.slice(2);
+
+    if (!phone || !password) {
+        throw new Error('Usage: npm run admin:create -- <phone> <password>');
+    }
+
+    if (password.length < ADMIN_PASSWORD_MIN_LENGTH) {
+        throw new Error(`Admin passwords must be at least ${ADMIN_PASSWORD_MIN_LENGTH} characters`);
+    }
+
+    const existing = await prisma.user.findUnique({
+        where: { phone },
+    });
+
+    if (existing) {
+        throw new Error(`Phone ${phone} is already registered as ${existing.role}`);
+    }
+
+    const admin = await prisma.user.create({
+        data: accountCreateData({
+            phone,
+            hashedPassword: await bcrypt.hash(password, 10),
+            role: 'ADMIN',
+            // Set up by an operator who has the phone at hand
+            phoneVerifiedAt: new Date(),
+        }),
+    });
+
+    console.log(`✅ Admin ${admin.phone} created`);
+}
+
+main()
+    .catch((error) => {
+        console.error('❌ Failed to create admin:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
@@ -0,0 +1,147 @@
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+import { decodeBase64Image } from '../utils/photoHash';
+import sharp from 'sharp';
+import {
+    StoredDumpPhoto,
+    deleteDumpPhoto,
+    detectPhotoFormat,
+    storeDumpPhoto,
+    stripPhotoMetadata,
+} from '../services/dumpPhotos';
+import { getStorageDriver } from '../services/storage';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 50;
+
+interface InlinePhoto {
+    id: string;
+    photoUrl: string | null;
+}
+
+/**
+ * Move one table's inline photos to storage
+ * @param load - Next batch of rows with an inline photo and no key, after the cursor
+ * @param save - Swap the inline photo for the stored keys; false if the row was moved in the meantime
+ */
+async function extract(
+    label: string,
+    load: (cursor: string | undefined) => Promise<InlinePhoto[]>,
+    save: (id: string, stored: StoredDumpPhoto) => Promise<boolean>
+) {
+    let cursor: string | undefined;
+    let moved = 0;
+    let skipped = 0;
+
+    for (;;) {
+        const rows = await load(cursor);
+
+        if (rows.length === 0) break;
+        cursor = rows[rows.length - 1].id;
+
+        for (const row of rows) {
+            const photo = decodeBase64Image(row.photoUrl!);
+            const format = await detectPhotoFormat(photo);
+
+            if (!format) {
+                console.warn(`Skipping ${label} ${row.id}: photo could not be decoded`);
+                skipped++;
+                continue;
+            }
+
+            const stored = await storeDumpPhoto(photo, format);
+
+            if (!await save(row.id, stored)) {
+                await deleteDumpPhoto(stored);
+                skipped++;
+                continue;
+            }
+
+            moved++;
+        }
+    }
+
+    console.log(`✅ ${moved} ${label} photo(s) moved to storage, ${skipped} skipped`);
+}
+
+/**
+ * Re-encode photos stored before originals were stripped of their EXIF data
+ * @param load - Next batch of rows with a stored photo, after the cursor
+ */
+async function strip(
+    label: string,
+    load: (cursor: string | undefined) => Promise<{ id: string; photoKey: string | null }[]>
+) {
+    const storage = getStorageDriver();
+    let cursor: string | undefined;
+    let stripped = 0;
+
+    for (;;) {
+        const rows = await load(cursor);
+
+        if (rows.length === 0) break;
+        cursor = rows[rows.length - 1].id;
+
+        for (const row of rows) {
+            const photo = await storage.get(row.photoKey!);
+            const format = await detectPhotoFormat(photo);
+
+            // Already stripped photos are left alone rather than re-compressed
+            if (!format || !(await sharp(photo).metadata()).exif) {
+                continue;
+            }
+
+            await storage.put(row.photoKey!, await stripPhotoMetadata(photo, format), format.contentType);
+            stripped++;
+        }
+    }
+
+    console.log(`✅ ${stripped} stored ${label} photo(s) stripped of EXIF data`);
+}
+
+/**
+ * One-off: move base64 dump report photos stored inline to the configured
+ * storage driver, generating thumbnails and dropping EXIF metadata on the way,
+ * then strip the EXIF data of photos uploaded to storage before that was done.
+ * Safe to re-run; rows already moved and photos already stripped are skipped.
+ */
+async function main() {
+    const page = (cursor: string | undefined) => ({
+        where: { photoKey: null, photoUrl: { not: null } },
+        select: { id: true, photoUrl: true },
+        orderBy: { id: 'asc' as const },
+        take: BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    // Only clear an inline photo if nobody moved it in the meantime
+    await extract(
+        'report',
+        cursor => prisma.dumpReport.findMany(page(cursor)),
+        async (id, stored) => (await prisma.dumpReport.updateMany({
+            where: { id, photoKey: null },
+            data: { ...stored, photoUrl: null },
+        })).count > 0
+    );
+
+    const storedPage = (cursor: string | undefined) => ({
+        where: { photoKey: { not: null } },
+        select: { id: true, photoKey: true },
+        orderBy: { id: 'asc' as const },
+        take: BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    await strip('report', cursor => prisma.dumpReport.findMany(storedPage(cursor)));
+    await strip('confirmation', cursor => prisma.dumpVerification.findMany(storedPage(cursor)));
+}
+
+main()
+    .catch((error) => {
+        console.error('❌ Failed to extract dump photos:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
@@ -0,0 +1,52 @@
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+import { HOUSE_ACCOUNTS, getHouseWallet, postJournal } from '../services/ledger';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+/**
+ * One-off: give every wallet that predates the ledger an OPENING_BALANCE entry
+ * so its cached balance is explained by (and reconciles against) the ledger.
+ * The cached balance is reset first because postJournal re-applies the amount.
+ */
+async function main() {
+    const wallets = await prisma.wallet.findMany({
+        where: {
+            balance: { not: 0 },
+            entries: { none: {} },
+        },
+    });
+
+    console.log(`Opening ledger for ${wallets.length} wallet(s)`);
+
+    for (const wallet of wallets) {
+        await prisma.$transaction(async (tx) => {
+            await tx.wallet.update({
+                where: { id: wallet.id },
+                data: { balance: 0 },
+            });
+
+            const settlement = await getHouseWallet(tx, HOUSE_ACCOUNTS.SETTLEMENT);
+
+            await postJournal(tx, {
+                type: 'OPENING_BALANCE',
+                description: 'Balance carried over from before the ledger',
+                postings: [
+                    { walletId: settlement.id, amount: -wallet.balance },
+                    { walletId: wallet.id, amount: wallet.balance },
+                ],
+            });
+        });
+    }
+
+    console.log('✅ Done');
+}
+
+main()
+    .catch((error) => {
+        console.error('❌ Failed to open ledger balances:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
@@ -0,0 +1,46 @@
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+/**
+ * Put agency and municipal accounts that registered themselves, before
+ * accounts had to be invited, on hold until an admin approves them.
+ * Invited accounts are created by an admin, so anything older than the
+ * first admin was self-registered.
+ * Usage: npm run accounts:review-staff
+ */
+async function main() {
+    const firstAdmin = await prisma.user.findFirst({
+        where: { role: 'ADMIN' },
+        select: { createdAt: true },
+        orderBy: { createdAt: 'asc' },
+    });
+
+    if (!firstAdmin) {
+        throw new Error('No admin account yet: run npm run admin:create first, so someone can approve these accounts');
+    }
+
+    const held = await prisma.user.updateMany({
+        where: {
+            role: { in: ['AGENCY', 'MUNICIPAL'] },
+            status: 'ACTIVE',
+            createdAt: { lt: firstAdmin.createdAt },
+        },
+        data: {
+            status: 'PENDING_APPROVAL',
+            statusReason: 'Self-registered before accounts required approval',
+        },
+    });
+
+    console.log(`✅ ${held.count} account(s) pending approval, see GET /api/admin/users?status=PENDING_APPROVAL`);
+}
+
+main()
+    .catch((error) => {
+        console.error('❌ Failed to hold self-registered accounts:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
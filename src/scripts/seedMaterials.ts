@@ -0,0 +1,36 @@
+import dotenv from 'dotenv';
+import { PrismaClient } from '@prisma/client';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+// Materials accepted before the catalog existed
+const DEFAULT_MATERIALS = [
+    { code: 'PET', name: 'PET bottles', nameFr: 'Bouteilles PET' },
+    { code: 'ALUMINUM', name: 'Aluminum and metal', nameFr: 'Aluminium et métaux' },
+    { code: 'HDPE', name: 'Clean HDPE', nameFr: 'PEHD propre' },
+];
+
+/**
+ * Seed a fresh database with the default materials.
+ * Existing materials are left untouched, so it is safe to run more than once.
+ */
+async function main() {
+    for (const material of DEFAULT_MATERIALS) {
+        await prisma.material.upsert({
+            where: { code: material.code },
+            create: material,
+            update: {},
+        });
+    }
+
+    console.log(`✅ ${DEFAULT_MATERIALS.length} default material(s) present`);
+}
+
+main()
+    .catch((error) => {
+        console.error('❌ Failed to seed materials:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
@@ -0,0 +1,56 @@
+import { Prisma, Role, UserStatus } from '@prisma/client';
+
+export interface AccountInput {
+    phone: string;
+    hashedPassword: string;
+    role: Role;
+    status?: UserStatus;
+    firstName?: string;
+    lastName?: string;
+    phoneVerifiedAt?: Date;
+}
+
+// Why an account that isn't ACTIVE is refused at login and on every request
+export const INACTIVE_ACCOUNT_ERRORS: Record<Exclude<UserStatus, 'ACTIVE'>, string> = {
+    PENDING_APPROVAL: 'Account pending approval',
+    SUSPENDED: 'Account suspended',
+};
+
+// Roles with a wallet (recycling module)
+const WALLET_ROLES: Role[] = ['CITIZEN', 'COLLECTOR'];
+
+/**
+ * Data to create a user with their profile, wallet and reputation score,
+ * shared by registration, invitations and the admin:create script
+ */
+export function accountCreateData(input: AccountInput): Prisma.UserCreateInput {
+    return {
+        phone: input.phone,
+        password: input.hashedPassword,
+        role: input.role,
+        status: input.status,
+        phoneVerifiedAt: input.phoneVerifiedAt,
+        profile: {
+            create: {
+                firstName: input.firstName,
+                lastName: input.lastName,
+            },
+        },
+        // Create wallet for CITIZEN and COLLECTOR roles (recycling module)
+        ...(WALLET_ROLES.includes(input.role) && {
+            wallet: {
+                create: {
+                    balance: 0,
+                },
+            },
+        }),
+        // Create reputation score for all users (dump reporting module)
+        reputationScore: {
+            create: {
+                score: 0,
+                verifiedReports: 0,
+                falseReports: 0,
+            },
+        },
+    };
+}
@@ -0,0 +1,97 @@
+import { BadgeType, Prisma, PrismaClient } from '@prisma/client';
+
+type Client = Prisma.TransactionClient | PrismaClient;
+
+export const BADGES: Record<BadgeType, { name: string; description: string }> = {
+    FIRST_VERIFIED_REPORT: {
+        name: 'First Spotter',
+        description: 'First dump report verified',
+    },
+    TEN_VERIFIED_REPORTS: {
+        name: 'Neighbourhood Watch',
+        description: '10 dump reports verified',
+    },
+    FIFTY_VERIFIED_REPORTS: {
+        name: 'City Guardian',
+        description: '50 dump reports verified',
+    },
+    FIRST_RECYCLING: {
+        name: 'First Recycling',
+        description: 'First waste declaration recycled',
+    },
+    TEN_RECYCLINGS: {
+        name: 'Committed Recycler',
+        description: '10 waste declarations recycled',
+    },
+};
+
+// Milestones, lowest first
+const VERIFIED_REPORT_BADGES: { count: number; badge: BadgeType }[] = [
+    { count: 1, badge: 'FIRST_VERIFIED_REPORT' },
+    { count: 10, badge: 'TEN_VERIFIED_REPORTS' },
+    { count: 50, badge: 'FIFTY_VERIFIED_REPORTS' },
+];
+
+const RECYCLING_BADGES: { count: number; badge: BadgeType }[] = [
+    { count: 1, badge: 'FIRST_RECYCLING' },
+    { count: 10, badge: 'TEN_RECYCLINGS' },
+];
+
+/**
+ * Award every milestone badge reached by a count that the user doesn't have yet
+ * @returns The newly awarded badges
+ */
+async function awardMilestones(
+    client: Client,
+    userId: string,
+    count: number,
+    milestones: { count: number; badge: BadgeType }[]
+): Promise<BadgeType[]> {
+    const reached = milestones.filter(m => count >= m.count).map(m => m.badge);
+
+    if (reached.length === 0) {
+        return [];
+    }
+
+    const owned = await client.userBadge.findMany({
+        where: { userId, badge: { in: reached } },
+        select: { badge: true },
+    });
+    const ownedBadges = new Set(owned.map(b => b.badge));
+    const awarded = reached.filter(b => !ownedBadges.has(b));
+
+    // Skip duplicates in case a concurrent award got there first
+    await client.userBadge.createMany({
+        data: awarded.map(badge => ({ userId, badge })),
+        skipDuplicates: true,
+    });
+
+    return awarded;
+}
+
+/**
+ * Award badges for the user's verified dump report count
+ */
+export async function awardReportBadges(client: Client, userId: string, verifiedReports: number) {
+    return awardMilestones(client, userId, verifiedReports, VERIFIED_REPORT_BADGES);
+}
+
+/**
+ * Award badges for the citizen's completed waste declarations
+ */
+export async function awardRecyclingBadges(client: Client, citizenId: string) {
+    const completed = await client.wasteDeclaration.count({
+        where: { citizenId, status: 'COMPLETED' },
+    });
+
+    return awardMilestones(client, citizenId, completed, RECYCLING_BADGES);
+}
+
+/**
+ * Badges as returned to clients, oldest first
+ */
+export function describeBadges(badges: { badge: BadgeType; awardedAt: Date }[]) {
+    return [...badges]
+        .sort((a, b) => a.awardedAt.getTime() - b.awardedAt.getTime())
+        .map(b => ({ badge: b.badge, ...BADGES[b.badge], awardedAt: b.awardedAt }));
+}
@@ -0,0 +1,34 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type Client = Prisma.TransactionClient | PrismaClient;
+
+export const CLAIM_WINDOW_MINUTES = parseFloat(process.env.CLAIM_WINDOW_MINUTES || '120');
+export const MAX_ACTIVE_CLAIMS = parseInt(process.env.MAX_ACTIVE_CLAIMS || '3');
+
+/**
+ * Return ASSIGNED declarations whose claim expired to the PENDING pool
+ * @returns Number of released declarations
+ */
+export async function releaseExpiredClaims(client: Client): Promise<number> {
+    const released = await client.wasteDeclaration.updateMany({
+        where: {
+            status: 'ASSIGNED',
+            claimExpiresAt: { lt: new Date() },
+        },
+        data: {
+            status: 'PENDING',
+            claimedById: null,
+            claimExpiresAt: null,
+        },
+    });
+
+    return released.count;
+}
+
+/**
+ * Serialise claims by one collector until the transaction ends, so parallel
+ * requests can't both pass the active-claim limit
+ */
+export async function lockCollectorClaims(tx: Prisma.TransactionClient, collectorId: string): Promise<void> {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`claims:${collectorId}`}))`;
+}
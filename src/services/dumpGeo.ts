@@ -0,0 +1,67 @@
+import { Prisma } from '@prisma/client';
+import { BoundingBox, encodeGeohash, getBoundingBox, getGeohashCover } from '../utils/geoUtils';
+
+export const GEO_CLUSTER_RADIUS = parseFloat(process.env.GEO_CLUSTER_RADIUS || '100'); // meters
+
+// 9 characters ≈ 5m cells, finer than any radius we search
+export const DUMP_GEOHASH_PRECISION = 9;
+
+// 7 characters ≈ 150m cells, the areas in which new reports are serialised
+const DUMP_LOCK_PRECISION = 7;
+
+/**
+ * Geohash stored on dump reports and sites, maintained on every write of their location
+ */
+export function dumpGeohash(latitude: number, longitude: number): string {
+    return encodeGeohash(latitude, longitude, DUMP_GEOHASH_PRECISION);
+}
+
+/**
+ * Filter for rows with a geohash column inside a bounding box.
+ * Each covering geohash cell becomes a range on the indexed geohash column
+ * (all stored hashes extending the prefix sort between it and prefix + "zzz…");
+ * the latitude/longitude bounds then trim the cells to the box.
+ */
+function inBox(box: BoundingBox) {
+    const cells = getGeohashCover(box, DUMP_GEOHASH_PRECISION);
+
+    return {
+        OR: cells.map(prefix => ({
+            geohash: {
+                gte: prefix,
+                lte: prefix.padEnd(DUMP_GEOHASH_PRECISION, 'z'),
+            },
+        })),
+        latitude: { gte: box.minLat, lte: box.maxLat },
+        longitude: { gte: box.minLng, lte: box.maxLng },
+    };
+}
+
+/**
+ * Filter for dump reports inside a bounding box
+ */
+export function dumpsInBox(box: BoundingBox): Prisma.DumpReportWhereInput {
+    return inBox(box);
+}
+
+/**
+ * Filter for dump sites inside a bounding box
+ */
+export function sitesInBox(box: BoundingBox): Prisma.DumpSiteWhereInput {
+    return inBox(box);
+}
+
+/**
+ * Serialise reports around a location until the transaction ends.
+ * Locks every precision-7 cell within GEO_CLUSTER_RADIUS, so two reports close
+ * enough to cluster always share a lock even across a cell border; cells are
+ * locked in sorted order so that writers can't deadlock.
+ */
+export async function lockDumpArea(tx: Prisma.TransactionClient, latitude: number, longitude: number): Promise<void> {
+    const box = getBoundingBox(latitude, longitude, GEO_CLUSTER_RADIUS);
+    const cells = getGeohashCover(box, DUMP_LOCK_PRECISION, Infinity).sort();
+
+    for (const cell of cells) {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`dump-area:${cell}`}))`;
+    }
+}
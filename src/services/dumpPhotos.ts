@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { PHOTO_URL_TTL_SECONDS, getStorageDriver } from './storage';
+
+const THUMBNAIL_SIZE = parseInt(process.env.PHOTO_THUMBNAIL_SIZE || '320'); // pixels, longest side
+
+// Formats phones produce that browsers can display; SVG is excluded since it can carry scripts
+const PHOTO_FORMATS: Record<string, PhotoFormat> = {
+    jpeg: { name: 'jpeg', contentType: 'image/jpeg', extension: 'jpg' },
+    png: { name: 'png', contentType: 'image/png', extension: 'png' },
+    webp: { name: 'webp', contentType: 'image/webp', extension: 'webp' },
+};
+
+export interface PhotoFormat {
+    name: 'jpeg' | 'png' | 'webp';
+    contentType: string;
+    extension: string;
+}
+
+export interface StoredDumpPhoto {
+    photoKey: string;
+    thumbnailKey: string;
+}
+
+/**
+ * Detect the format of an uploaded photo
+ * @returns The format, or null if the data is not a supported image
+ */
+export async function detectPhotoFormat(image: Buffer): Promise<PhotoFormat | null> {
+    try {
+        const { format } = await sharp(image).metadata();
+        return (format && PHOTO_FORMATS[format]) || null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Re-encode a photo without its metadata (EXIF GPS position, camera, capture time)
+ */
+export async function stripPhotoMetadata(image: Buffer, format: PhotoFormat): Promise<Buffer> {
+    return sharp(image)
+        .rotate() // Apply EXIF orientation before the metadata is dropped
+        .toFormat(format.name, format.name === 'png' ? {} : { quality: 90 })
+        .toBuffer();
+}
+
+/**
+ * Upload a dump photo and its thumbnail to storage.
+ * Both are stored without metadata, so the EXIF position never reaches a
+ * photo URL: read anything needed from the upload first.
+ * @param folder - Key prefix; other evidence photos (pickups, disputes) are stored the same way
+ */
+export async function storeDumpPhoto(image: Buffer, format: PhotoFormat, folder = 'dumps'): Promise<StoredDumpPhoto> {
+    const storage = getStorageDriver();
+    const id = crypto.randomUUID();
+    const photoKey = `${folder}/${id}.${format.extension}`;
+    const thumbnailKey = `${folder}/${id}-thumb.jpg`;
+
+    const original = await stripPhotoMetadata(image, format);
+
+    const thumbnail = await sharp(original)
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 75 })
+        .toBuffer();
+
+    await storage.put(photoKey, original, format.contentType);
+
+    try {
+        await storage.put(thumbnailKey, thumbnail, 'image/jpeg');
+    } catch (error) {
+        await storage.delete(photoKey).catch(() => undefined);
+        throw error;
+    }
+
+    return { photoKey, thumbnailKey };
+}
+
+/**
+ * Best-effort removal of a stored photo whose report was not saved
+ */
+export async function deleteDumpPhoto(stored: StoredDumpPhoto): Promise<void> {
+    const storage = getStorageDriver();
+
+    await Promise.all([
+        storage.delete(stored.photoKey),
+        storage.delete(stored.thumbnailKey),
+    ]).catch((error) => console.error('Failed to delete orphaned dump photo:', error));
+}
+
+/**
+ * Signed, time-limited URLs for a dump's photo and thumbnail
+ */
+export async function signDumpPhoto(dump: { photoKey: string | null; thumbnailKey: string | null }) {
+    const storage = getStorageDriver();
+
+    return {
+        photoUrl: dump.photoKey ? await storage.getSignedUrl(dump.photoKey) : null,
+        thumbnailUrl: dump.thumbnailKey ? await storage.getSignedUrl(dump.thumbnailKey) : null,
+        expiresAt: new Date(Date.now() + PHOTO_URL_TTL_SECONDS * 1000),
+    };
+}
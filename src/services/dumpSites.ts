@@ -0,0 +1,142 @@
+import { DumpSize, DumpStatus, Prisma } from '@prisma/client';
+import { calculateDistance, getBoundingBox } from '../utils/geoUtils';
+import { GEO_CLUSTER_RADIUS, dumpGeohash, lockDumpArea, sitesInBox } from './dumpGeo';
+
+// New reports only join sites whose dump is still on the ground
+const ATTACHABLE_SITE_STATUSES: DumpStatus[] = ['UNVERIFIED', 'VERIFIED', 'SCHEDULED', 'IN_PROGRESS'];
+
+// Most advanced cleanup stage first: a site is as far along as its furthest report
+const OPEN_STATUS_PRECEDENCE: DumpStatus[] = ['IN_PROGRESS', 'SCHEDULED', 'VERIFIED'];
+
+const SIZE_ORDER: DumpSize[] = ['SMALL', 'MEDIUM', 'LARGE'];
+
+/**
+ * Derive a site's status from the statuses of its reports
+ */
+export function deriveSiteStatus(statuses: DumpStatus[]): DumpStatus {
+    const active: DumpStatus[] = statuses.filter(s => s !== 'FALSE_REPORT');
+
+    if (active.length === 0) return 'FALSE_REPORT';
+
+    const open = OPEN_STATUS_PRECEDENCE.find(s => active.includes(s));
+    if (open) return open;
+
+    // Cleaned once every verified report is cleaned; leftover unverified reports don't reopen it
+    if (active.includes('CLEANED')) return 'CLEANED';
+
+    return 'UNVERIFIED';
+}
+
+/**
+ * Recompute a site's location, status, size and counts from its reports.
+ * Deletes the site if no report is left.
+ */
+export async function refreshSite(tx: Prisma.TransactionClient, siteId: string) {
+    const reports = await tx.dumpReport.findMany({
+        where: { siteId },
+        select: {
+            latitude: true,
+            longitude: true,
+            status: true,
+            size: true,
+            createdAt: true,
+        },
+    });
+
+    if (reports.length === 0) {
+        await tx.dumpSite.delete({ where: { id: siteId } });
+        return null;
+    }
+
+    // Reports rejected as false don't move the site or make it bigger
+    const active = reports.filter(r => r.status !== 'FALSE_REPORT');
+    const located = active.length > 0 ? active : reports;
+
+    const latitude = located.reduce((sum, r) => sum + r.latitude, 0) / located.length;
+    const longitude = located.reduce((sum, r) => sum + r.longitude, 0) / located.length;
+    const size = located.reduce(
+        (largest, r) => SIZE_ORDER.indexOf(r.size) > SIZE_ORDER.indexOf(largest) ? r.size : largest,
+        'SMALL' as DumpSize
+    );
+    const times = reports.map(r => r.createdAt.getTime());
+
+    return tx.dumpSite.update({
+        where: { id: siteId },
+        data: {
+            latitude,
+            longitude,
+            geohash: dumpGeohash(latitude, longitude),
+            status: deriveSiteStatus(reports.map(r => r.status)),
+            size,
+            reportCount: active.length,
+            firstReportedAt: new Date(Math.min(...times)),
+            lastReportedAt: new Date(Math.max(...times)),
+        },
+    });
+}
+
+/**
+ * Refresh the site of a report after the report changed, if it has one
+ */
+export async function refreshSiteOf(tx: Prisma.TransactionClient, dumpReportId: string) {
+    const report = await tx.dumpReport.findUnique({
+        where: { id: dumpReportId },
+        select: { siteId: true },
+    });
+
+    if (report?.siteId) {
+        await refreshSite(tx, report.siteId);
+    }
+}
+
+/**
+ * Attach a new report to the nearest open site within GEO_CLUSTER_RADIUS,
+ * or start a new site for it. Must run inside a transaction, which keeps
+ * the area locked against other reports until it ends.
+ * @returns The site id
+ */
+export async function attachToSite(
+    tx: Prisma.TransactionClient,
+    report: { id: string; latitude: number; longitude: number; size: DumpSize; createdAt: Date }
+): Promise<string> {
+    // Two first reports of a dump would otherwise both start a site
+    await lockDumpArea(tx, report.latitude, report.longitude);
+
+    const candidates = await tx.dumpSite.findMany({
+        where: {
+            ...sitesInBox(getBoundingBox(report.latitude, report.longitude, GEO_CLUSTER_RADIUS)),
+            status: { in: ATTACHABLE_SITE_STATUSES },
+        },
+        select: { id: true, latitude: true, longitude: true },
+    });
+
+    const nearest = candidates
+        .map(s => ({
+            id: s.id,
+            distance: calculateDistance(report.latitude, report.longitude, s.latitude, s.longitude),
+        }))
+        .filter(s => s.distance <= GEO_CLUSTER_RADIUS)
+        .sort((a, b) => a.distance - b.distance)[0];
+
+    const siteId = nearest
+        ? nearest.id
+        : (await tx.dumpSite.create({
+            data: {
+                latitude: report.latitude,
+                longitude: report.longitude,
+                geohash: dumpGeohash(report.latitude, report.longitude),
+                size: report.size,
+                firstReportedAt: report.createdAt,
+                lastReportedAt: report.createdAt,
+            },
+        })).id;
+
+    await tx.dumpReport.update({
+        where: { id: report.id },
+        data: { siteId },
+    });
+
+    await refreshSite(tx, siteId);
+
+    return siteId;
+}
@@ -0,0 +1,99 @@
+import { Prisma } from '@prisma/client';
+import { refreshSiteOf } from './dumpSites';
+import { awardVerifiedReport, getVerificationWeight } from './reputation';
+
+// Distinct users (reporter included) needed to verify a dump, whatever their reputation
+export const VERIFICATION_MIN_USERS = 2;
+
+// Combined reputation weight of those users needed to verify it
+export const VERIFICATION_WEIGHT_THRESHOLD = parseFloat(process.env.VERIFICATION_WEIGHT_THRESHOLD || '2');
+
+export interface VerificationInput {
+    dumpReportId: string;
+    verifierId: string;
+    latitude?: number;
+    longitude?: number;
+    distance?: number;
+    photoKey?: string;
+    thumbnailKey?: string;
+    notes?: string;
+}
+
+/**
+ * Record that a user has seen a dump
+ * @returns false if the user had already verified it
+ */
+export async function addVerification(tx: Prisma.TransactionClient, input: VerificationInput): Promise<boolean> {
+    // ON CONFLICT DO NOTHING: a concurrent duplicate is skipped instead of aborting the transaction
+    const created = await tx.dumpVerification.createMany({
+        data: [input],
+        skipDuplicates: true,
+    });
+
+    return created.count > 0;
+}
+
+/**
+ * Mark an UNVERIFIED dump VERIFIED once enough users, weighted by their
+ * reputation, have seen it, and award reputation to all of them.
+ * Must run inside a transaction.
+ * @returns true if this call verified the dump
+ */
+export async function verifyIfCorroborated(
+    tx: Prisma.TransactionClient,
+    dumpReportId: string,
+    notes: string
+): Promise<boolean> {
+    const verifications = await tx.dumpVerification.findMany({
+        where: { dumpReportId },
+        select: {
+            verifierId: true,
+            verifier: {
+                select: {
+                    createdAt: true,
+                    reputationScore: {
+                        select: { score: true },
+                    },
+                },
+            },
+        },
+    });
+
+    // A trusted verifier counts for more than a fresh or penalized account
+    const weight = verifications.reduce(
+        (sum, v) => sum + getVerificationWeight(v.verifier.reputationScore?.score ?? 0, v.verifier.createdAt),
+        0
+    );
+
+    if (verifications.length < VERIFICATION_MIN_USERS || weight < VERIFICATION_WEIGHT_THRESHOLD) {
+        return false;
+    }
+
+    // Guard against two corroborations verifying (and rewarding) twice
+    const verified = await tx.dumpReport.updateMany({
+        where: { id: dumpReportId, status: 'UNVERIFIED' },
+        data: { status: 'VERIFIED' },
+    });
+
+    if (verified.count === 0) {
+        return false;
+    }
+
+    await tx.dumpStatusChange.create({
+        data: {
+            dumpReportId,
+            fromStatus: 'UNVERIFIED',
+            toStatus: 'VERIFIED',
+            notes,
+        },
+    });
+
+    await refreshSiteOf(tx, dumpReportId);
+
+    // Award reputation to all verifiers
+    for (const verification of verifications) {
+        await awardVerifiedReport(tx, verification.verifierId, dumpReportId);
+    }
+
+    return true;
+}
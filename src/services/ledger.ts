@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import { LedgerEntry, LedgerEntryType, Prisma, PrismaClient } from '@prisma/client';
+
+type Client = Prisma.TransactionClient | PrismaClient;
+
+/**
+ * House accounts owned by CityLink rather than a user
+ * - CITYLINK: CityLink's share of recycling value
+ * - SETTLEMENT: counterpart for money entering (agencies) or leaving (mobile money) the system
+ * - PAYOUT_CLEARING: funds reserved for payouts that are not settled yet
+ */
+export const HOUSE_ACCOUNTS = {
+    CITYLINK: 'CITYLINK',
+    SETTLEMENT: 'SETTLEMENT',
+    PAYOUT_CLEARING: 'PAYOUT_CLEARING',
+} as const;
+
+export type HouseAccount = typeof HOUSE_ACCOUNTS[keyof typeof HOUSE_ACCOUNTS];
+
+// Amounts are in whole currency units; anything below this is rounding noise
+const EPSILON = 0.005;
+
+export class InsufficientFundsError extends Error {
+    constructor(public walletId: string) {
+        super('Insufficient balance');
+    }
+}
+
+export interface Posting {
+    walletId: string;
+    amount: number;
+    // Reject the journal if this posting would take the wallet below zero
+    requireFunds?: boolean;
+}
+
+export interface Journal {
+    type: LedgerEntryType;
+    postings: Posting[];
+    declarationId?: string;
+    payoutId?: string;
+    description?: string;
+}
+
+/**
+ * Get (or create) the wallet of a user
+ */
+export async function getUserWallet(tx: Client, userId: string) {
+    return tx.wallet.upsert({
+        where: { userId },
+        create: { userId },
+        update: {},
+    });
+}
+
+/**
+ * Get (or create) a CityLink house account
+ */
+export async function getHouseWallet(tx: Client, code: HouseAccount) {
+    return tx.wallet.upsert({
+        where: { code },
+        create: { code },
+        update: {},
+    });
+}
+
+/**
+ * Post a balanced journal: one entry per posting, cached balances updated alongside.
+ * Must run inside a transaction so entries and balances commit together.
+ */
+export async function postJournal(tx: Prisma.TransactionClient, journal: Journal): Promise<LedgerEntry[]> {
+    const postings = journal.postings.filter(p => Math.abs(p.amount) >= EPSILON);
+    const total = postings.reduce((sum, p) => sum + p.amount, 0);
+
+    if (Math.abs(total) >= EPSILON) {
+        throw new Error(`Unbalanced journal (${journal.type}): postings sum to ${total}`);
+    }
+
+    const journalId = crypto.randomUUID();
+    const entries: LedgerEntry[] = [];
+
+    // Lock wallets in a stable order to avoid deadlocks between concurrent journals
+    const ordered = [...postings].sort((a, b) => a.walletId.localeCompare(b.walletId));
+
+    for (const posting of ordered) {
+        if (posting.requireFunds && posting.amount < 0) {
+            const debited = await tx.wallet.updateMany({
+                where: {
+                    id: posting.walletId,
+                    balance: { gte: -posting.amount },
+                },
+                data: { balance: { increment: posting.amount } },
+            });
+
+            if (debited.count === 0) {
+                throw new InsufficientFundsError(posting.walletId);
+            }
+        } else {
+            await tx.wallet.update({
+                where: { id: posting.walletId },
+                data: { balance: { increment: posting.amount } },
+            });
+        }
+
+        const wallet = await tx.wallet.findUniqueOrThrow({
+            where: { id: posting.walletId },
+            select: { balance: true },
+        });
+
+        entries.push(await tx.ledgerEntry.create({
+            data: {
+                journalId,
+                walletId: posting.walletId,
+                type: journal.type,
+                amount: posting.amount,
+                balanceAfter: wallet.balance,
+                declarationId: journal.declarationId,
+                payoutId: journal.payoutId,
+                description: journal.description,
+            },
+        }));
+    }
+
+    return entries;
+}
+
+/**
+ * Balance of a wallet as derived from its ledger entries
+ */
+export async function getLedgerBalance(client: Client, walletId: string): Promise<number> {
+    const result = await client.ledgerEntry.aggregate({
+        where: { walletId },
+        _sum: { amount: true },
+    });
+
+    return result._sum.amount || 0;
+}
+
+export interface ReconciliationReport {
+    driftedWallets: {
+        walletId: string;
+        userId: string | null;
+        code: string | null;
+        cachedBalance: number;
+        ledgerBalance: number;
+    }[];
+    unbalancedJournals: {
+        journalId: string;
+        total: number;
+    }[];
+    mismatchedTransactions: {
+        declarationId: string;
+        totalAmount: number;
+        ledgerAmount: number;
+    }[];
+}
+
+/**
+ * Find wallets whose cached balance drifted from their entries, journals that
+ * do not sum to zero, and recycling transactions not matched by the ledger
+ */
+export async function reconcileLedger(client: Client): Promise<ReconciliationReport> {
+    const driftedWallets = await client.$queryRaw<ReconciliationReport['driftedWallets']>`
+        SELECT w.id AS "walletId", w."userId", w.code,
+               w.balance AS "cachedBalance",
+               COALESCE(SUM(e.amount), 0)::float AS "ledgerBalance"
+        FROM wallets w
+        LEFT JOIN ledger_entries e ON e."walletId" = w.id
+        GROUP BY w.id
+        HAVING ABS(w.balance - COALESCE(SUM(e.amount), 0)) >= ${EPSILON}
+    `;
+
+    const unbalancedJournals = await client.$queryRaw<ReconciliationReport['unbalancedJournals']>`
+        SELECT "journalId", SUM(amount)::float AS total
+        FROM ledger_entries
+        GROUP BY "journalId"
+        HAVING ABS(SUM(amount)) >= ${EPSILON}
+    `;
+
+    // Recycling value is funded from SETTLEMENT, so its entries mirror each transaction total
+    const mismatchedTransactions = await client.$queryRaw<ReconciliationReport['mismatchedTransactions']>`
+        SELECT t."declarationId", t."totalAmount",
+               COALESCE(-SUM(e.amount), 0)::float AS "ledgerAmount"
+        FROM recycling_transactions t
+        LEFT JOIN ledger_entries e
+            ON e."declarationId" = t."declarationId"
+            AND e."walletId" = (SELECT id FROM wallets WHERE code = ${HOUSE_ACCOUNTS.SETTLEMENT})
+        GROUP BY t."declarationId", t."totalAmount"
+        HAVING ABS(t."totalAmount" - COALESCE(-SUM(e.amount), 0)) >= ${EPSILON}
+    `;
+
+    return { driftedWallets, unbalancedJournals, mismatchedTransactions };
+}
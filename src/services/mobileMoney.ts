@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+
+export interface MobileMoneyTransfer {
+    payoutId: string; // Idempotency key: the provider sends at most one transfer per payout
+    amount: number;
+    momoNumber: string;
+}
+
+export interface MobileMoneyResult {
+    success: boolean;
+    reference?: string;
+    error?: string;
+}
+
+export interface MobileMoneyTransferStatus {
+    state: 'NOT_FOUND' | 'PENDING' | 'COMPLETED' | 'FAILED';
+    reference?: string;
+    error?: string;
+}
+
+/**
+ * A mobile-money operator able to push funds to a subscriber's wallet
+ */
+export interface MobileMoneyProvider {
+    readonly name: string;
+    /**
+     * Send a transfer. Sending the same payoutId again must not move funds twice;
+     * it returns the outcome of the first transfer instead.
+     */
+    sendTransfer(transfer: MobileMoneyTransfer): Promise<MobileMoneyResult>;
+    /**
+     * Look up the transfer sent for a payout, NOT_FOUND if it never reached the provider
+     */
+    getTransferStatus(payoutId: string): Promise<MobileMoneyTransferStatus>;
+}
+
+/**
+ * Local provider for development and tests.
+ * Every transfer succeeds, except to numbers ending with MOMO_FAKE_FAIL_SUFFIX
+ * (default "000") which lets the failure path be exercised end to end.
+ * Transfers are remembered in memory until the server restarts.
+ */
+export class FakeMobileMoneyProvider implements MobileMoneyProvider {
+    readonly name = 'fake';
+
+    private transfers = new Map<string, MobileMoneyResult>();
+
+    async sendTransfer(transfer: MobileMoneyTransfer): Promise<MobileMoneyResult> {
+        const existing = this.transfers.get(transfer.payoutId);
+        if (existing) {
+            return existing;
+        }
+
+        const failSuffix = process.env.MOMO_FAKE_FAIL_SUFFIX || '000';
+        let result: MobileMoneyResult;
+
+        if (transfer.momoNumber.endsWith(failSuffix)) {
+            result = { success: false, error: 'Subscriber rejected the transfer (fake provider)' };
+        } else {
+            console.log(`💸 [fake momo] ${transfer.amount} → ${transfer.momoNumber} (payout ${transfer.payoutId})`);
+
+            result = {
+                success: true,
+                reference: `FAKE-${crypto.randomBytes(6).toString('hex').toUpperCase()}`,
+            };
+        }
+
+        this.transfers.set(transfer.payoutId, result);
+        return result;
+    }
+
+    async getTransferStatus(payoutId: string): Promise<MobileMoneyTransferStatus> {
+        const result = this.transfers.get(payoutId);
+
+        if (!result) {
+            return { state: 'NOT_FOUND' };
+        }
+
+        return {
+            state: result.success ? 'COMPLETED' : 'FAILED',
+            reference: result.reference,
+            error: result.error,
+        };
+    }
+}
+
+let provider: MobileMoneyProvider | null = null;
+
+/**
+ * Get the mobile-money provider selected by MOMO_PROVIDER
+ */
+export function getMobileMoneyProvider(): MobileMoneyProvider {
+    if (provider) return provider;
+
+    const name = process.env.MOMO_PROVIDER || 'fake';
+
+    switch (name) {
+        case 'fake':
+            provider = new FakeMobileMoneyProvider();
+            break;
+        default:
+            throw new Error(`Unknown mobile-money provider: ${name}`);
+    }
+
+    return provider;
+}
@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+import { OtpPurpose, Prisma, PrismaClient } from '@prisma/client';
+import { getSmsProvider } from './sms';
+
+type Client = Prisma.TransactionClient | PrismaClient;
+
+const OTP_LENGTH = parseInt(process.env.OTP_LENGTH || '6');
+const OTP_TTL_MINUTES = parseFloat(process.env.OTP_TTL_MINUTES || '10');
+const OTP_MAX_ATTEMPTS = parseInt(process.env.OTP_MAX_ATTEMPTS || '5');
+const OTP_RESEND_SECONDS = parseInt(process.env.OTP_RESEND_SECONDS || '60');
+const OTP_MAX_PER_HOUR = parseInt(process.env.OTP_MAX_PER_HOUR || '5');
+
+// Codes are only kept long enough to enforce the hourly limit
+const OTP_RETENTION_HOURS = 24;
+
+const OTP_MESSAGES: Record<OtpPurpose, string> = {
+    PHONE_VERIFICATION: 'Your CityLink verification code is',
+    PASSWORD_RESET: 'Your CityLink password reset code is',
+};
+
+export class OtpRateLimitError extends Error {
+    constructor(public retryAfterSeconds: number) {
+        super('Too many codes requested');
+    }
+}
+
+export class OtpDeliveryError extends Error {}
+
+export class OtpVerificationError extends Error {}
+
+/**
+ * @throws If neither OTP_SECRET nor JWT_SECRET is configured
+ */
+function hashCode(phone: string, purpose: OtpPurpose, code: string): string {
+    const secret = process.env.OTP_SECRET || process.env.JWT_SECRET;
+
+    if (!secret) {
+        throw new Error('OTP_SECRET or JWT_SECRET not configured');
+    }
+
+    return crypto.createHmac('sha256', secret).update(`${phone}:${purpose}:${code}`).digest('hex');
+}
+
+/**
+ * Enforce the resend delay and hourly limit of a phone
+ * @throws OtpRateLimitError if codes were requested too recently or too often
+ */
+async function enforceRateLimit(client: Client, phone: string, purpose: OtpPurpose, now: number): Promise<void> {
+    await client.otpCode.deleteMany({
+        where: { phone, createdAt: { lt: new Date(now - OTP_RETENTION_HOURS * 3600000) } },
+    });
+
+    const recent = await client.otpCode.findMany({
+        where: { phone, purpose, createdAt: { gte: new Date(now - 3600000) } },
+        select: { createdAt: true },
+        orderBy: { createdAt: 'desc' },
+    });
+
+    if (recent.length > 0) {
+        const sinceLast = (now - recent[0].createdAt.getTime()) / 1000;
+        if (sinceLast < OTP_RESEND_SECONDS) {
+            throw new OtpRateLimitError(Math.ceil(OTP_RESEND_SECONDS - sinceLast));
+        }
+    }
+
+    if (recent.length >= OTP_MAX_PER_HOUR) {
+        // Wait until the oldest code of the last hour falls out of the window
+        const oldest = recent[OTP_MAX_PER_HOUR - 1].createdAt.getTime();
+        throw new OtpRateLimitError(Math.ceil((oldest + 3600000 - now) / 1000));
+    }
+}
+
+/**
+ * Generate a code for a phone and send it by SMS. Any earlier code for the
+ * same purpose stops being valid.
+ * @throws OtpRateLimitError if codes were requested too recently or too often
+ * @throws OtpDeliveryError if the SMS could not be sent
+ */
+export async function issueOtp(client: Client, phone: string, purpose: OtpPurpose): Promise<{ expiresAt: Date }> {
+    const now = Date.now();
+
+    await enforceRateLimit(client, phone, purpose, now);
+
+    const code = crypto.randomInt(0, 10 ** OTP_LENGTH).toString().padStart(OTP_LENGTH, '0');
+    const expiresAt = new Date(now + OTP_TTL_MINUTES * 60000);
+
+    const otp = await client.otpCode.create({
+        data: {
+            phone,
+            purpose,
+            codeHash: hashCode(phone, purpose, code),
+            expiresAt,
+        },
+    });
+
+    const result = await getSmsProvider().send({
+        to: phone,
+        body: `${OTP_MESSAGES[purpose]} ${code}. It expires in ${OTP_TTL_MINUTES} minutes.`,
+    });
+
+    if (!result.success) {
+        // An undelivered code doesn't count against the limits
+        await client.otpCode.delete({ where: { id: otp.id } });
+        throw new OtpDeliveryError(result.error || 'SMS delivery failed');
+    }
+
+    return { expiresAt };
+}
+
+/**
+ * Count a request for a phone that must not get a code (e.g. an unregistered
+ * phone asking for a password reset) against the same limits as issueOtp,
+ * so the response can't tell the two apart. Nothing is sent, and the stored
+ * code matches no input.
+ * @throws OtpRateLimitError if codes were requested too recently or too often
+ */
+export async function issueDecoyOtp(client: Client, phone: string, purpose: OtpPurpose): Promise<void> {
+    const now = Date.now();
+
+    await enforceRateLimit(client, phone, purpose, now);
+
+    await client.otpCode.create({
+        data: {
+            phone,
+            purpose,
+            codeHash: crypto.randomBytes(32).toString('hex'),
+            expiresAt: new Date(now + OTP_TTL_MINUTES * 60000),
+        },
+    });
+}
+
+/**
+ * Check a code against the latest code sent to a phone, and consume it.
+ * Failed attempts are recorded, so don't call this inside a transaction
+ * that rolls back on failure.
+ * @throws OtpVerificationError if the code is wrong, expired, used or out of attempts
+ */
+export async function verifyOtp(client: Client, phone: string, purpose: OtpPurpose, code: string): Promise<void> {
+    const otp = await client.otpCode.findFirst({
+        where: { phone, purpose },
+        orderBy: { createdAt: 'desc' },
+    });
+
+    if (!otp || otp.consumedAt) {
+        throw new OtpVerificationError('No pending code, request a new one');
+    }
+
+    if (otp.expiresAt < new Date()) {
+        throw new OtpVerificationError('Code expired, request a new one');
+    }
+
+    // Count the attempt before checking it, so parallel guesses can't exceed the limit
+    const attempt = await client.otpCode.updateMany({
+        where: { id: otp.id, consumedAt: null, attempts: { lt: OTP_MAX_ATTEMPTS } },
+        data: { attempts: { increment: 1 } },
+    });
+
+    if (attempt.count === 0) {
+        throw new OtpVerificationError('Too many attempts, request a new code');
+    }
+
+    const expected = Buffer.from(otp.codeHash, 'hex');
+    const given = Buffer.from(hashCode(phone, purpose, code), 'hex');
+
+    if (!crypto.timingSafeEqual(expected, given)) {
+        const remaining = OTP_MAX_ATTEMPTS - otp.attempts - 1;
+        throw new OtpVerificationError(
+            remaining > 0 ? `Invalid code, ${remaining} attempt(s) left` : 'Too many attempts, request a new code'
+        );
+    }
+
+    // Guard against the same code being used twice
+    const consumed = await client.otpCode.updateMany({
+        where: { id: otp.id, consumedAt: null },
+        data: { consumedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+        throw new OtpVerificationError('No pending code, request a new one');
+    }
+}
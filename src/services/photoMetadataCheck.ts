@@ -0,0 +1,34 @@
+import { PhotoMetadata } from '../utils/photoExif';
+import { calculateDistance } from '../utils/geoUtils';
+
+const PHOTO_EXIF_MAX_DISTANCE = parseFloat(process.env.PHOTO_EXIF_MAX_DISTANCE || '500'); // meters
+const PHOTO_EXIF_MAX_AGE_HOURS = parseFloat(process.env.PHOTO_EXIF_MAX_AGE_HOURS || '48');
+export const PHOTO_EXIF_MODE = process.env.PHOTO_EXIF_MODE === 'reject' ? 'reject' : 'flag';
+
+/**
+ * Compare a photo's EXIF position and capture time with where it was submitted from
+ * @returns Distance from the submitted location (if the photo has GPS) and any discrepancies
+ */
+export function checkPhotoMetadata(metadata: PhotoMetadata, latitude: number, longitude: number) {
+    const issues: string[] = [];
+    let distance: number | null = null;
+
+    if (metadata.latitude !== null && metadata.longitude !== null) {
+        distance = calculateDistance(latitude, longitude, metadata.latitude, metadata.longitude);
+
+        if (distance > PHOTO_EXIF_MAX_DISTANCE) {
+            issues.push(`Photo GPS is ${Math.round(distance)}m from the reported location (max ${PHOTO_EXIF_MAX_DISTANCE}m)`);
+        }
+    }
+
+    if (metadata.takenAt) {
+        // Either direction: a capture time far in the future means a wrong clock or an edited file
+        const ageHours = (Date.now() - metadata.takenAt.getTime()) / 3600000;
+
+        if (Math.abs(ageHours) > PHOTO_EXIF_MAX_AGE_HOURS) {
+            issues.push(`Photo was taken ${metadata.takenAt.toISOString()}, more than ${PHOTO_EXIF_MAX_AGE_HOURS}h from now`);
+        }
+    }
+
+    return { distance, issues };
+}
@@ -0,0 +1,92 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type Client = Prisma.TransactionClient | PrismaClient;
+
+// Hamming distances (out of 64 bits) between perceptual hashes
+export const PHOTO_DUPLICATE_REJECT_DISTANCE = parseInt(process.env.PHOTO_DUPLICATE_REJECT_DISTANCE || '4');
+export const PHOTO_DUPLICATE_FLAG_DISTANCE = parseInt(process.env.PHOTO_DUPLICATE_FLAG_DISTANCE || '10');
+
+const BAND_COUNT = 4;
+const BAND_BITS = 16;
+
+export interface SimilarPhoto {
+    hash: string;
+    uploadedBy: string;
+    dumpReportId: string | null;
+    distance: number;
+}
+
+export interface PerceptualHashBands {
+    phashBand0: number;
+    phashBand1: number;
+    phashBand2: number;
+    phashBand3: number;
+}
+
+/**
+ * Split a perceptual hash into the 16-bit bands stored next to it
+ * @param perceptualHash - dHash (16 hex chars)
+ */
+export function perceptualHashBands(perceptualHash: string): PerceptualHashBands {
+    const band = (i: number) => parseInt(perceptualHash.slice(i * 4, i * 4 + 4), 16);
+
+    return {
+        phashBand0: band(0),
+        phashBand1: band(1),
+        phashBand2: band(2),
+        phashBand3: band(3),
+    };
+}
+
+/**
+ * Every 16-bit value within a Hamming distance of a band
+ */
+function bandNeighbours(band: number, radius: number, fromBit = 0): number[] {
+    const values = [band];
+
+    if (radius === 0) {
+        return values;
+    }
+
+    for (let bit = fromBit; bit < BAND_BITS; bit++) {
+        values.push(...bandNeighbours(band ^ (1 << bit), radius - 1, bit + 1));
+    }
+
+    return values;
+}
+
+/**
+ * Find stored photos whose perceptual hash is within a Hamming distance.
+ * Two hashes within maxDistance differ by at most maxDistance / 4 bits in at
+ * least one of their four bands, so candidates are looked up on the indexed
+ * band columns (each band and its close neighbours) before the exact distance
+ * is computed.
+ * @param perceptualHash - dHash of the new photo (16 hex chars)
+ * @param maxDistance - Largest number of differing bits to match
+ * @returns Closest matches first
+ */
+export async function findSimilarPhotos(
+    client: Client,
+    perceptualHash: string,
+    maxDistance: number
+): Promise<SimilarPhoto[]> {
+    const bands = Object.values(perceptualHashBands(perceptualHash));
+    const bandRadius = Math.floor(maxDistance / BAND_COUNT);
+
+    const bandMatches = bands.map((band, i) =>
+        Prisma.sql`${Prisma.raw(`p."phashBand${i}"`)} IN (${Prisma.join(bandNeighbours(band, bandRadius))})`
+    );
+
+    return client.$queryRaw<SimilarPhoto[]>`
+        SELECT * FROM (
+            SELECT p.hash, p."uploadedBy", d.id AS "dumpReportId",
+                   bit_count(('x' || p."perceptualHash")::bit(64) # ('x' || ${perceptualHash})::bit(64))::int AS distance
+            FROM photo_hashes p
+            LEFT JOIN dump_reports d ON d."photoHash" = p.hash
+            WHERE ${Prisma.join(bandMatches, ' OR ')}
+        ) matches
+        WHERE distance <= ${maxDistance}
+        ORDER BY distance
+        LIMIT 5
+    `;
+}
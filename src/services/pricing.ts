@@ -0,0 +1,87 @@
+import { MaterialPrice, Prisma, PrismaClient, SplitPolicy } from '@prisma/client';
+
+type Client = Prisma.TransactionClient | PrismaClient;
+
+/**
+ * Resolve the price an agency pays for a material at a given moment
+ * @returns The price in force, or null if the agency never published one
+ */
+export async function resolvePrice(
+    client: Client,
+    agencyId: string,
+    materialId: string,
+    at: Date = new Date()
+): Promise<MaterialPrice | null> {
+    return client.materialPrice.findFirst({
+        where: {
+            agencyId,
+            materialId,
+            effectiveFrom: { lte: at },
+        },
+        orderBy: {
+            effectiveFrom: 'desc',
+        },
+    });
+}
+
+/**
+ * Resolve the prices in force for several agencies at once
+ * @returns One price per agency and material
+ */
+export async function resolveCurrentPrices(
+    client: Client,
+    agencyIds: string[],
+    materialId?: string,
+    at: Date = new Date()
+): Promise<MaterialPrice[]> {
+    return client.materialPrice.findMany({
+        where: {
+            agencyId: { in: agencyIds },
+            ...(materialId && { materialId }),
+            effectiveFrom: { lte: at },
+        },
+        orderBy: {
+            effectiveFrom: 'desc',
+        },
+        distinct: ['agencyId', 'materialId'],
+    });
+}
+
+/**
+ * Resolve the revenue split policy an agency applies to a material at a given moment.
+ * A running promotion wins over a regular policy, then a material specific policy
+ * wins over a catch-all one, then the most recent policy wins.
+ * @returns The policy in force, or null if the agency has none
+ */
+export async function resolveSplitPolicy(
+    client: Client,
+    agencyId: string,
+    materialId: string,
+    at: Date = new Date()
+): Promise<SplitPolicy | null> {
+    const candidates = await client.splitPolicy.findMany({
+        where: {
+            agencyId,
+            OR: [{ materialId }, { materialId: null }],
+            effectiveFrom: { lte: at },
+            AND: [{ OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }] }],
+        },
+    });
+
+    const rank = (p: SplitPolicy): number[] => [
+        p.isPromotion ? 1 : 0,
+        p.materialId ? 1 : 0,
+        p.effectiveFrom.getTime(),
+    ];
+
+    candidates.sort((a, b) => {
+        const ra = rank(a);
+        const rb = rank(b);
+        for (let i = 0; i < ra.length; i++) {
+            if (ra[i] !== rb[i]) return rb[i] - ra[i];
+        }
+        return 0;
+    });
+
+    return candidates[0] || null;
+}
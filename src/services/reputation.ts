@@ -0,0 +1,153 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { awardReportBadges } from './badges';
+
+type Client = Prisma.TransactionClient | PrismaClient;
+
+export const REPUTATION_PER_VERIFIED = parseInt(process.env.REPUTATION_PER_VERIFIED_DUMP || '10');
+export const REPUTATION_PENALTY_FALSE_REPORT = parseInt(process.env.REPUTATION_DECAY_FALSE_REPORT || '50');
+
+// Scores stop decaying once their owner is active again
+const REPUTATION_DECAY_INACTIVE_DAYS = parseFloat(process.env.REPUTATION_DECAY_INACTIVE_DAYS || '30');
+const REPUTATION_DECAY_RATE = parseFloat(process.env.REPUTATION_DECAY_RATE || '0.1'); // Share lost per decay
+
+// Accounts younger than this count for less when verifying dumps
+const REPUTATION_FRESH_ACCOUNT_DAYS = parseFloat(process.env.REPUTATION_FRESH_ACCOUNT_DAYS || '7');
+const REPUTATION_FRESH_ACCOUNT_WEIGHT = parseFloat(process.env.REPUTATION_FRESH_ACCOUNT_WEIGHT || '0.5');
+
+export type ReputationTier = 'PROBATION' | 'NEWCOMER' | 'CONTRIBUTOR' | 'TRUSTED' | 'GUARDIAN';
+
+const [CONTRIBUTOR_MIN, TRUSTED_MIN, GUARDIAN_MIN] = (process.env.REPUTATION_TIER_THRESHOLDS || '50,200,500')
+    .split(',')
+    .map(Number);
+
+const [PROBATION_WEIGHT, NEWCOMER_WEIGHT, CONTRIBUTOR_WEIGHT, TRUSTED_WEIGHT, GUARDIAN_WEIGHT] =
+    (process.env.REPUTATION_TIER_WEIGHTS || '0.5,1,1,1.5,2')
+        .split(',')
+        .map(Number);
+
+// Highest first; PROBATION covers negative scores
+const TIERS: { tier: ReputationTier; minScore: number; weight: number }[] = [
+    { tier: 'GUARDIAN', minScore: GUARDIAN_MIN, weight: GUARDIAN_WEIGHT },
+    { tier: 'TRUSTED', minScore: TRUSTED_MIN, weight: TRUSTED_WEIGHT },
+    { tier: 'CONTRIBUTOR', minScore: CONTRIBUTOR_MIN, weight: CONTRIBUTOR_WEIGHT },
+    { tier: 'NEWCOMER', minScore: 0, weight: NEWCOMER_WEIGHT },
+    { tier: 'PROBATION', minScore: -Infinity, weight: PROBATION_WEIGHT },
+];
+
+/**
+ * Get the tier of a score, its verification weight and the next tier to reach
+ */
+export function getReputationTier(score: number) {
+    const index = TIERS.findIndex(t => score >= t.minScore);
+    const current = TIERS[index];
+    const next = index > 0 ? TIERS[index - 1] : null;
+
+    return {
+        tier: current.tier,
+        weight: current.weight,
+        nextTier: next?.tier ?? null,
+        pointsToNextTier: next ? next.minScore - score : null,
+    };
+}
+
+/**
+ * How much a user's verification counts toward verifying a dump
+ */
+export function getVerificationWeight(score: number, accountCreatedAt: Date): number {
+    const accountAgeDays = (Date.now() - accountCreatedAt.getTime()) / 86400000;
+    const weight = getReputationTier(score).weight;
+
+    return accountAgeDays < REPUTATION_FRESH_ACCOUNT_DAYS
+        ? Math.min(weight, REPUTATION_FRESH_ACCOUNT_WEIGHT)
+        : weight;
+}
+
+/**
+ * Credit a user for a verified dump report and award any badge it unlocks
+ */
+export async function awardVerifiedReport(client: Client, userId: string, dumpReportId: string) {
+    const now = new Date();
+
+    const reputation = await client.reputationScore.upsert({
+        where: { userId },
+        create: {
+            userId,
+            score: REPUTATION_PER_VERIFIED,
+            verifiedReports: 1,
+            lastActivityAt: now,
+        },
+        update: {
+            score: { increment: REPUTATION_PER_VERIFIED },
+            verifiedReports: { increment: 1 },
+            lastActivityAt: now,
+        },
+    });
+
+    await client.reputationEvent.create({
+        data: {
+            userId,
+            type: 'VERIFIED_REPORT',
+            points: REPUTATION_PER_VERIFIED,
+            dumpReportId,
+        },
+    });
+
+    await awardReportBadges(client, userId, reputation.verifiedReports);
+}
+
+/**
+ * Penalize a user whose report was rejected as false
+ */
+export async function penalizeFalseReport(client: Client, userId: string, dumpReportId: string) {
+    await client.reputationScore.upsert({
+        where: { userId },
+        create: {
+            userId,
+            score: -REPUTATION_PENALTY_FALSE_REPORT,
+            falseReports: 1,
+        },
+        update: {
+            score: { decrement: REPUTATION_PENALTY_FALSE_REPORT },
+            falseReports: { increment: 1 },
+        },
+    });
+
+    await client.reputationEvent.create({
+        data: {
+            userId,
+            type: 'FALSE_REPORT',
+            points: -REPUTATION_PENALTY_FALSE_REPORT,
+            dumpReportId,
+        },
+    });
+}
+
+/**
+ * Shrink positive scores of users without a verified report for
+ * REPUTATION_DECAY_INACTIVE_DAYS, at most once per inactive period.
+ * Negative scores never decay back toward zero.
+ * Each decay is logged as a DECAY event in the same statement.
+ * @returns Number of decayed scores
+ */
+export async function decayInactiveScores(client: Client): Promise<number> {
+    const cutoff = new Date(Date.now() - REPUTATION_DECAY_INACTIVE_DAYS * 86400000);
+
+    // The self-join reads scores as they were before the update
+    return client.$executeRaw`
+        WITH decayed AS (
+            UPDATE reputation_scores r
+            SET score = FLOOR(r.score * (1 - ${REPUTATION_DECAY_RATE}::float8)),
+                "lastDecayAt" = NOW(),
+                "updatedAt" = NOW()
+            FROM reputation_scores previous
+            WHERE previous.id = r.id
+              AND r.score > 0
+              AND r."lastActivityAt" < ${cutoff}
+              AND (r."lastDecayAt" IS NULL OR r."lastDecayAt" < ${cutoff})
+            RETURNING r."userId", r.score - previous.score AS points
+        )
+        INSERT INTO reputation_events (id, "userId", type, points, "createdAt")
+        SELECT gen_random_uuid()::text, "userId", 'DECAY'::"ReputationEventType", points, NOW()
+        FROM decayed
+    `;
+}
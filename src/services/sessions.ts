@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Prisma, PrismaClient, Role } from '@prisma/client';
+
+type Client = Prisma.TransactionClient | PrismaClient;
+
+const ACCESS_TOKEN_EXPIRATION = process.env.JWT_EXPIRATION || '15m';
+const REFRESH_TOKEN_TTL_DAYS = parseFloat(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+
+export interface AccessTokenPayload {
+    userId: string;
+    role: Role;
+    sessionId: string;
+}
+
+export interface SessionMetadata {
+    deviceName?: string;
+    userAgent?: string;
+    ipAddress?: string;
+}
+
+export interface SessionTokens {
+    token: string;
+    refreshToken: string;
+    expiresIn: string;
+}
+
+function hashRefreshToken(refreshToken: string): string {
+    return crypto.createHash('sha256').update(refreshToken).digest('hex');
+}
+
+function refreshDeadline(): Date {
+    return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 86400000);
+}
+
+/**
+ * Sign a short-lived access token bound to a session
+ */
+export function signAccessToken(payload: AccessTokenPayload): string {
+    return jwt.sign(
+        payload,
+        process.env.JWT_SECRET as string,
+        { expiresIn: ACCESS_TOKEN_EXPIRATION } as jwt.SignOptions
+    );
+}
+
+/**
+ * Start a session for a device that just signed in
+ */
+export async function createSession(
+    client: Client,
+    user: { id: string; role: Role },
+    metadata: SessionMetadata
+): Promise<SessionTokens> {
+    const refreshToken = crypto.randomBytes(48).toString('base64url');
+
+    // Sessions past their refresh deadline can never be used again
+    await client.session.deleteMany({
+        where: { userId: user.id, expiresAt: { lt: new Date() } },
+    });
+
+    const session = await client.session.create({
+        data: {
+            userId: user.id,
+            refreshTokenHash: hashRefreshToken(refreshToken),
+            deviceName: metadata.deviceName,
+            userAgent: metadata.userAgent,
+            ipAddress: metadata.ipAddress,
+            expiresAt: refreshDeadline(),
+        },
+    });
+
+    return {
+        token: signAccessToken({ userId: user.id, role: user.role, sessionId: session.id }),
+        refreshToken,
+        expiresIn: ACCESS_TOKEN_EXPIRATION,
+    };
+}
+
+/**
+ * Exchange a refresh token for a new access token and a new refresh token.
+ * Presenting an already rotated token means it was copied: the session is revoked.
+ * @returns null if the token is unknown, expired or revoked, or the account is not active
+ */
+export async function rotateSession(client: Client, refreshToken: string): Promise<SessionTokens | null> {
+    const tokenHash = hashRefreshToken(refreshToken);
+
+    const reused = await client.session.findUnique({
+        where: { previousTokenHash: tokenHash },
+    });
+
+    if (reused) {
+        await client.session.updateMany({
+            where: { id: reused.id, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+        return null;
+    }
+
+    const session = await client.session.findUnique({
+        where: { refreshTokenHash: tokenHash },
+        include: {
+            user: {
+                select: { id: true, role: true, status: true },
+            },
+        },
+    });
+
+    if (!session || session.revokedAt || session.expiresAt < new Date() || session.user.status !== 'ACTIVE') {
+        return null;
+    }
+
+    const nextRefreshToken = crypto.randomBytes(48).toString('base64url');
+
+    // Guard against the same token being refreshed twice concurrently
+    const rotated = await client.session.updateMany({
+        where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+        data: {
+            refreshTokenHash: hashRefreshToken(nextRefreshToken),
+            previousTokenHash: tokenHash,
+            expiresAt: refreshDeadline(),
+            lastUsedAt: new Date(),
+        },
+    });
+
+    if (rotated.count === 0) {
+        return null;
+    }
+
+    return {
+        token: signAccessToken({ userId: session.user.id, role: session.user.role, sessionId: session.id }),
+        refreshToken: nextRefreshToken,
+        expiresIn: ACCESS_TOKEN_EXPIRATION,
+    };
+}
+
+/**
+ * Revoke one session of a user
+ * @returns false if the user has no such active session
+ */
+export async function revokeSession(client: Client, userId: string, sessionId: string): Promise<boolean> {
+    const revoked = await client.session.updateMany({
+        where: { id: sessionId, userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+    });
+
+    return revoked.count > 0;
+}
+
+/**
+ * Revoke every session of a user, optionally keeping one
+ * @returns Number of revoked sessions
+ */
+export async function revokeAllSessions(client: Client, userId: string, exceptSessionId?: string): Promise<number> {
+    const revoked = await client.session.updateMany({
+        where: {
+            userId,
+            revokedAt: null,
+            ...(exceptSessionId && { id: { not: exceptSessionId } }),
+        },
+        data: { revokedAt: new Date() },
+    });
+
+    return revoked.count;
+}
@@ -0,0 +1,167 @@
+import { MaterialPrice, Prisma, SplitPolicy } from '@prisma/client';
+import { awardRecyclingBadges } from './badges';
+import { HOUSE_ACCOUNTS, getHouseWallet, getUserWallet, postJournal } from './ledger';
+
+export class SettlementConflictError extends Error {}
+
+export interface SettlementInput {
+    declarationId: string;
+    citizenId: string;
+    collectorId: string;
+    agencyId: string;
+    confirmedKg: number;
+    price: MaterialPrice | null; // null for unpaid materials
+    policy: SplitPolicy | null;
+    notes?: string;
+}
+
+export interface SettlementBreakdown {
+    splitPolicyId: string | null;
+    totalValue: number;
+    collectorAmount: number;
+    citizenAmount: number;
+    citylinkAmount: number;
+}
+
+/**
+ * Calculate the value of a confirmed weight and its split
+ */
+export function calculateBreakdown(
+    confirmedKg: number,
+    price: MaterialPrice | null,
+    policy: SplitPolicy | null
+): SettlementBreakdown {
+    if (!price || !policy) {
+        return { splitPolicyId: null, totalValue: 0, collectorAmount: 0, citizenAmount: 0, citylinkAmount: 0 };
+    }
+
+    const totalValue = confirmedKg * price.pricePerKg;
+
+    return {
+        splitPolicyId: policy.id,
+        totalValue,
+        collectorAmount: (totalValue * policy.collectorPercentage) / 100,
+        citizenAmount: (totalValue * policy.citizenPercentage) / 100,
+        citylinkAmount: (totalValue * policy.citylinkPercentage) / 100,
+    };
+}
+
+/**
+ * Confirm the weight of a PICKED_UP declaration, record the transaction,
+ * credit wallets through the ledger and mark the declaration COMPLETED.
+ * Unpaid materials only get the confirmation. Must run inside a transaction.
+ * Also awards the citizen any recycling badge this completion unlocks.
+ * @throws SettlementConflictError if the declaration is no longer PICKED_UP
+ */
+export async function settleDeclaration(tx: Prisma.TransactionClient, input: SettlementInput) {
+    // Guard against two agencies validating the same declaration
+    const claimed = await tx.wasteDeclaration.updateMany({
+        where: { id: input.declarationId, status: 'PICKED_UP' },
+        data: { status: 'COMPLETED' },
+    });
+
+    if (claimed.count === 0) {
+        throw new SettlementConflictError();
+    }
+
+    const breakdown = calculateBreakdown(input.confirmedKg, input.price, input.policy);
+
+    // Create agency confirmation
+    const confirmation = await tx.agencyConfirmation.create({
+        data: {
+            declarationId: input.declarationId,
+            agencyId: input.agencyId,
+            confirmedKg: input.confirmedKg,
+            materialPriceId: input.price?.id,
+            pricePerKg: input.price?.pricePerKg ?? 0,
+            totalValue: breakdown.totalValue,
+            notes: input.notes,
+        },
+    });
+
+    let transaction = null;
+
+    if (breakdown.splitPolicyId) {
+        // Create recycling transaction
+        transaction = await tx.recyclingTransaction.create({
+            data: {
+                declarationId: input.declarationId,
+                splitPolicyId: breakdown.splitPolicyId,
+                totalAmount: breakdown.totalValue,
+                collectorAmount: breakdown.collectorAmount,
+                citizenAmount: breakdown.citizenAmount,
+                citylinkAmount: breakdown.citylinkAmount,
+            },
+        });
+
+        // Credit wallets through the ledger (funded by the agency settlement)
+        const settlementWallet = await getHouseWallet(tx, HOUSE_ACCOUNTS.SETTLEMENT);
+        const citylinkWallet = await getHouseWallet(tx, HOUSE_ACCOUNTS.CITYLINK);
+        const collectorWallet = await getUserWallet(tx, input.collectorId);
+        const citizenWallet = await getUserWallet(tx, input.citizenId);
+
+        await postJournal(tx, {
+            type: 'RECYCLING_CREDIT',
+            declarationId: input.declarationId,
+            postings: [
+                { walletId: settlementWallet.id, amount: -breakdown.totalValue },
+                { walletId: collectorWallet.id, amount: breakdown.collectorAmount },
+                { walletId: citizenWallet.id, amount: breakdown.citizenAmount },
+                { walletId: citylinkWallet.id, amount: breakdown.citylinkAmount },
+            ],
+        });
+    }
+
+    await awardRecyclingBadges(tx, input.citizenId);
+
+    return { confirmation, transaction, breakdown };
+}
+
+export class WeightAllocationError extends Error {}
+
+export interface AllocationItem {
+    declarationId: string;
+    estimatedKg: number;
+    confirmedKg?: number; // Weighed individually by the agency
+}
+
+// Weighbridge readings are not more precise than this
+const WEIGHT_TOLERANCE_KG = 0.01;
+
+/**
+ * Split a batch weight across declarations: individually weighed declarations
+ * keep their weight, the remainder is shared in proportion to estimated weights.
+ * @returns Confirmed weight per declaration id
+ */
+export function allocateBatchWeight(totalKg: number, items: AllocationItem[]): Map<string, number> {
+    const allocation = new Map<string, number>();
+    const weighed = items.filter(i => i.confirmedKg !== undefined);
+    const unweighed = items.filter(i => i.confirmedKg === undefined);
+
+    const weighedKg = weighed.reduce((sum, i) => sum + i.confirmedKg!, 0);
+    const remainderKg = totalKg - weighedKg;
+
+    weighed.forEach(i => allocation.set(i.declarationId, i.confirmedKg!));
+
+    if (unweighed.length === 0) {
+        if (Math.abs(remainderKg) > WEIGHT_TOLERANCE_KG) {
+            throw new WeightAllocationError(
+                `Per-declaration weights add up to ${weighedKg}kg but the delivery weighs ${totalKg}kg`
+            );
+        }
+        return allocation;
+    }
+
+    if (remainderKg <= WEIGHT_TOLERANCE_KG) {
+        throw new WeightAllocationError(
+            `Per-declaration weights (${weighedKg}kg) leave nothing for the remaining declarations out of ${totalKg}kg`
+        );
+    }
+
+    const estimatedKg = unweighed.reduce((sum, i) => sum + i.estimatedKg, 0);
+    unweighed.forEach(i =>
+        allocation.set(i.declarationId, (remainderKg * i.estimatedKg) / estimatedKg)
+    );
+
+    return allocation;
+}
@@ -0,0 +1,53 @@
+export interface SmsMessage {
+    to: string;
+    body: string;
+}
+
+export interface SmsResult {
+    success: boolean;
+    reference?: string;
+    error?: string;
+}
+
+/**
+ * An SMS gateway able to send a text message to a phone number
+ */
+export interface SmsProvider {
+    readonly name: string;
+    send(message: SmsMessage): Promise<SmsResult>;
+}
+
+/**
+ * Local provider for development and tests: messages are written to the log
+ * instead of being sent, so codes can be read from the server output.
+ */
+export class ConsoleSmsProvider implements SmsProvider {
+    readonly name = 'console';
+
+    async send(message: SmsMessage): Promise<SmsResult> {
+        console.log(`📱 [console sms] → ${message.to}: ${message.body}`);
+
+        return { success: true };
+    }
+}
+
+let provider: SmsProvider | null = null;
+
+/**
+ * Get the SMS provider selected by SMS_PROVIDER
+ */
+export function getSmsProvider(): SmsProvider {
+    if (provider) return provider;
+
+    const name = process.env.SMS_PROVIDER || 'console';
+
+    switch (name) {
+        case 'console':
+            provider = new ConsoleSmsProvider();
+            break;
+        default:
+            throw new Error(`Unknown SMS provider: ${name}`);
+    }
+
+    return provider;
+}
@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+    DeleteObjectCommand,
+    GetObjectCommand,
+    PutObjectCommand,
+    S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+export const PHOTO_URL_TTL_SECONDS = parseInt(process.env.PHOTO_URL_TTL_SECONDS || '900');
+
+/**
+ * Where uploaded files live. Keys are relative paths like "dumps/<id>.jpg".
+ */
+export interface StorageDriver {
+    readonly name: string;
+    put(key: string, data: Buffer, contentType: string): Promise<void>;
+    get(key: string): Promise<Buffer>;
+    delete(key: string): Promise<void>;
+    /** Time-limited URL a client can fetch the object from without a token */
+    getSignedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+}
+
+/**
+ * Sign a local object key so it can be served without authentication until it expires
+ * @throws If neither PHOTO_URL_SECRET nor JWT_SECRET is configured
+ */
+export function signLocalKey(key: string, expires: number): string {
+    const secret = process.env.PHOTO_URL_SECRET || process.env.JWT_SECRET;
+
+    if (!secret) {
+        throw new Error('PHOTO_URL_SECRET or JWT_SECRET not configured');
+    }
+
+    return crypto.createHmac('sha256', secret).update(`${key}:${expires}`).digest('hex');
+}
+
+/**
+ * Check a signature produced by signLocalKey
+ */
+export function verifyLocalKey(key: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+        return false;
+    }
+
+    const expected = Buffer.from(signLocalKey(key, expires));
+    const given = Buffer.from(signature);
+
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+/**
+ * Files on the local disk under UPLOAD_DIR, served by GET /api/photos/<key>
+ */
+export class LocalStorageDriver implements StorageDriver {
+    readonly name = 'local';
+    private readonly root = path.resolve(process.env.UPLOAD_DIR || './uploads');
+
+    private resolve(key: string): string {
+        const filePath = path.resolve(this.root, key);
+
+        // Keys come from URLs when serving, so never leave the upload directory
+        if (!filePath.startsWith(this.root + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+
+        return filePath;
+    }
+
+    async put(key: string, data: Buffer): Promise<void> {
+        const filePath = this.resolve(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, data);
+    }
+
+    async get(key: string): Promise<Buffer> {
+        return fs.readFile(this.resolve(key));
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.resolve(key), { force: true });
+    }
+
+    async getSignedUrl(key: string, expiresInSeconds = PHOTO_URL_TTL_SECONDS): Promise<string> {
+        const baseUrl = process.env.PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || 3000}`;
+        const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+        const signature = signLocalKey(key, expires);
+
+        return `${baseUrl}/api/photos/${key}?expires=${expires}&signature=${signature}`;
+    }
+}
+
+/**
+ * Amazon S3 or any S3-compatible service (MinIO, Cloudflare R2, ...)
+ */
+export class S3StorageDriver implements StorageDriver {
+    readonly name = 's3';
+    private readonly bucket: string;
+    private readonly client: S3Client;
+
+    constructor() {
+        if (!process.env.S3_BUCKET) {
+            throw new Error('S3_BUCKET is required for the s3 storage driver');
+        }
+
+        this.bucket = process.env.S3_BUCKET;
+        this.client = new S3Client({
+            region: process.env.S3_REGION || 'us-east-1',
+            endpoint: process.env.S3_ENDPOINT || undefined,
+            forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+            ...(process.env.S3_ACCESS_KEY_ID && {
+                credentials: {
+                    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+                },
+            }),
+        });
+    }
+
+    async put(key: string, data: Buffer, contentType: string): Promise<void> {
+        await this.client.send(new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            Body: data,
+            ContentType: contentType,
+        }));
+    }
+
+    async get(key: string): Promise<Buffer> {
+        const object = await this.client.send(new GetObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+        }));
+
+        return Buffer.from(await object.Body!.transformToByteArray());
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.client.send(new DeleteObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+        }));
+    }
+
+    async getSignedUrl(key: string, expiresInSeconds = PHOTO_URL_TTL_SECONDS): Promise<string> {
+        return getSignedUrl(
+            this.client,
+            new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+            { expiresIn: expiresInSeconds }
+        );
+    }
+}
+
+let driver: StorageDriver | null = null;
+
+/**
+ * Get the storage driver selected by STORAGE_DRIVER
+ */
+export function getStorageDriver(): StorageDriver {
+    if (driver) return driver;
+
+    const name = process.env.STORAGE_DRIVER || 'local';
+
+    switch (name) {
+        case 'local':
+            driver = new LocalStorageDriver();
+            break;
+        case 's3':
+            driver = new S3StorageDriver();
+            break;
+        default:
+            throw new Error(`Unknown storage driver: ${name}`);
+    }
+
+    return driver;
+}
@@ -44,3 +44,113 @@ export function isWithinRadius(
 ): boolean {
     return calculateDistance(lat1, lon1, lat2, lon2) <= radiusMeters;
 }
+
+export interface BoundingBox {
+    minLat: number;
+    maxLat: number;
+    minLng: number;
+    maxLng: number;
+}
+
+/**
+ * Get the bounding box enclosing a circle, used to pre-filter on indexed
+ * latitude/longitude columns before exact distance checks
+ * @param lat - Latitude of the center
+ * @param lon - Longitude of the center
+ * @param radiusMeters - Radius in meters
+ * @returns Bounding box in degrees
+ */
+export function getBoundingBox(lat: number, lon: number, radiusMeters: number): BoundingBox {
+    const metersPerDegree = 111320;
+    const latDelta = radiusMeters / metersPerDegree;
+    // Guard against the poles where longitude degrees collapse
+    const lngDelta = radiusMeters / (metersPerDegree * Math.max(Math.cos((lat * Math.PI) / 180), 0.01));
+
+    return {
+        minLat: Math.max(lat - latDelta, -90),
+        maxLat: Math.min(lat + latDelta, 90),
+        minLng: Math.max(lon - lngDelta, -180),
+        maxLng: Math.min(lon + lngDelta, 180),
+    };
+}
+
+const GEOHASH_BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+/**
+ * Encode a point as a geohash. Points sharing a prefix lie in the same cell,
+ * so prefix ranges on an indexed geohash column find points in an area.
+ * @param lat - Latitude of the point
+ * @param lon - Longitude of the point
+ * @param precision - Number of characters (9 ≈ 5m cells)
+ * @returns Geohash string
+ */
+export function encodeGeohash(lat: number, lon: number, precision: number): string {
+    let latMin = -90, latMax = 90;
+    let lonMin = -180, lonMax = 180;
+    let hash = '';
+    let char = 0;
+    let bits = 0;
+    let isLonBit = true;
+
+    // Bits alternate longitude / latitude halvings, 5 bits per character
+    while (hash.length < precision) {
+        if (isLonBit) {
+            const mid = (lonMin + lonMax) / 2;
+            char = char * 2 + (lon >= mid ? 1 : 0);
+            if (lon >= mid) lonMin = mid; else lonMax = mid;
+        } else {
+            const mid = (latMin + latMax) / 2;
+            char = char * 2 + (lat >= mid ? 1 : 0);
+            if (lat >= mid) latMin = mid; else latMax = mid;
+        }
+        isLonBit = !isLonBit;
+
+        if (++bits === 5) {
+            hash += GEOHASH_BASE32[char];
+            char = 0;
+            bits = 0;
+        }
+    }
+
+    return hash;
+}
+
+/**
+ * Get the geohash prefixes whose cells together cover a bounding box, at the
+ * finest precision needing at most maxCells cells
+ * @param box - Area to cover
+ * @param maxPrecision - Precision of the stored geohashes
+ * @param maxCells - Upper bound on the number of prefixes returned
+ * @returns Geohash prefixes
+ */
+export function getGeohashCover(box: BoundingBox, maxPrecision: number, maxCells = 16): string[] {
+    for (let precision = maxPrecision; precision >= 1; precision--) {
+        const lonBits = Math.ceil((precision * 5) / 2);
+        const latBits = Math.floor((precision * 5) / 2);
+        const cellLat = 180 / 2 ** latBits;
+        const cellLng = 360 / 2 ** lonBits;
+
+        const firstRow = Math.floor((box.minLat + 90) / cellLat);
+        const firstCol = Math.floor((box.minLng + 180) / cellLng);
+        const rows = Math.floor((box.maxLat + 90) / cellLat) - firstRow + 1;
+        const cols = Math.floor((box.maxLng + 180) / cellLng) - firstCol + 1;
+
+        if (rows * cols > maxCells && precision > 1) {
+            continue;
+        }
+
+        // Encode each cell's center, which is never on a boundary
+        const cells = new Set<string>();
+        for (let row = 0; row < rows; row++) {
+            for (let col = 0; col < cols; col++) {
+                const lat = Math.min(-90 + (firstRow + row + 0.5) * cellLat, 90);
+                const lon = Math.min(-180 + (firstCol + col + 0.5) * cellLng, 180);
+                cells.add(encodeGeohash(lat, lon, precision));
+            }
+        }
+
+        return [...cells];
+    }
+
+    return [];
+}
@@ -0,0 +1,34 @@
+import exifr from 'exifr';
+
+export interface PhotoMetadata {
+    takenAt: Date | null;
+    latitude: number | null;
+    longitude: number | null;
+    camera: string | null;
+}
+
+/**
+ * Extract capture time, GPS position and camera from a photo's EXIF data
+ * @param imageData - Raw image bytes
+ * @returns Extracted metadata; fields are null when the photo does not carry them
+ */
+export async function extractPhotoMetadata(imageData: Buffer): Promise<PhotoMetadata> {
+    let exif: any;
+    try {
+        exif = await exifr.parse(imageData, { gps: true, xmp: false, icc: false, iptc: false });
+    } catch {
+        exif = null; // Unsupported or corrupt EXIF is treated as none
+    }
+
+    // EXIF times carry no zone, so they are read in the server's timezone
+    const takenAt = exif?.DateTimeOriginal ?? exif?.CreateDate;
+    const hasGps = Number.isFinite(exif?.latitude) && Number.isFinite(exif?.longitude);
+    const camera = [exif?.Make, exif?.Model].filter(Boolean).join(' ').trim();
+
+    return {
+        takenAt: takenAt instanceof Date && !isNaN(takenAt.getTime()) ? takenAt : null,
+        latitude: hasGps ? exif.latitude : null,
+        longitude: hasGps ? exif.longitude : null,
+        camera: camera || null,
+    };
+}
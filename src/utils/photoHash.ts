@@ -1,4 +1,5 @@
 import crypto from 'crypto';
+import sharp from 'sharp';
 
 /**
  * Generate SHA-256 hash from base64 image data
@@ -40,3 +41,52 @@ export function isValidBase64Image(base64Data: string): boolean {
         return false;
     }
 }
+
+/**
+ * Decode base64 image data (with or without a data URL prefix) into raw bytes
+ * @param base64Data - Base64 encoded image string
+ * @returns Image bytes
+ */
+export function decodeBase64Image(base64Data: string): Buffer {
+    const base64Clean = base64Data.replace(/^data:image\/\w+;base64,/, '');
+    return Buffer.from(base64Clean, 'base64');
+}
+
+/**
+ * Generate a perceptual difference hash (dHash) from image bytes.
+ * Unlike the SHA-256 hash it survives re-encoding, resizing and light edits.
+ * @param imageData - Raw image bytes
+ * @returns 64-bit hash as 16 hex characters, or null for images too small or flat to compare
+ * @throws If the data cannot be decoded as an image
+ */
+export async function generatePerceptualHash(imageData: Buffer): Promise<string | null> {
+    const image = sharp(imageData);
+
+    const { width = 0, height = 0 } = await image.metadata();
+    if (width < 9 || height < 8) {
+        return null;
+    }
+
+    // 9x8 grayscale: each row yields 8 "is brighter than the next pixel" bits
+    const pixels = await image
+        .grayscale()
+        .resize(9, 8, { fit: 'fill' })
+        .raw()
+        .toBuffer();
+
+    let hash = 0n;
+    for (let row = 0; row < 8; row++) {
+        for (let col = 0; col < 8; col++) {
+            const left = pixels[row * 9 + col];
+            const right = pixels[row * 9 + col + 1];
+            hash = (hash << 1n) | (left > right ? 1n : 0n);
+        }
+    }
+
+    // A flat image has no gradients, so every flat image would match every other
+    if (hash === 0n) {
+        return null;
+    }
+
+    return hash.toString(16).padStart(16, '0');
+}
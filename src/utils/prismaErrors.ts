@@ -0,0 +1,20 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Check whether a query failed on a unique constraint (Prisma P2002),
+ * e.g. a create that lost a race against the existence check before it
+ * @param error - Error thrown by Prisma
+ * @param field - Only match violations of a constraint on this field
+ */
+export function isUniqueViolation(error: unknown, field?: string): boolean {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        return false;
+    }
+
+    if (!field) {
+        return true;
+    }
+
+    const target = error.meta?.target;
+    return Array.isArray(target) ? target.includes(field) : String(target).includes(field);
+}
@@ -0,0 +1,174 @@
+import { calculateDistance } from './geoUtils';
+
+export interface RoutePoint {
+    latitude: number;
+    longitude: number;
+}
+
+export interface RouteStop extends RoutePoint {
+    id: string;
+    kg: number;
+}
+
+export interface PlannedStop extends RouteStop {
+    legDistance: number; // Meters from the previous point
+}
+
+export interface PlannedTrip {
+    stops: PlannedStop[];
+    loadKg: number;
+    endLeg: {
+        to: 'DROP_OFF' | 'START';
+        distance: number;
+    };
+    distance: number;
+    overCapacity: boolean; // A single stop heavier than the trip capacity
+}
+
+export interface RoutePlan {
+    trips: PlannedTrip[];
+    totalDistance: number;
+}
+
+export interface RouteOptions {
+    dropOff?: RoutePoint;    // Where each trip unloads (defaults to the start point)
+    maxKgPerTrip?: number;   // Capacity per trip (unlimited if omitted)
+    initialLoadKg?: number;  // Weight already on board for the first trip
+}
+
+const distanceBetween = (a: RoutePoint, b: RoutePoint): number =>
+    calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+
+/**
+ * Total distance of visiting points in order from start to end
+ */
+function pathDistance(start: RoutePoint, points: RoutePoint[], end: RoutePoint): number {
+    let total = 0;
+    let previous = start;
+    for (const point of points) {
+        total += distanceBetween(previous, point);
+        previous = point;
+    }
+    return total + distanceBetween(previous, end);
+}
+
+/**
+ * Improve a stop order with 2-opt (reverse segments while it shortens the path)
+ */
+function twoOpt<T extends RoutePoint>(start: RoutePoint, stops: T[], end: RoutePoint): T[] {
+    let best = stops;
+    let bestDistance = pathDistance(start, best, end);
+    let improved = true;
+
+    while (improved) {
+        improved = false;
+        for (let i = 0; i < best.length - 1; i++) {
+            for (let j = i + 1; j < best.length; j++) {
+                const candidate = [
+                    ...best.slice(0, i),
+                    ...best.slice(i, j + 1).reverse(),
+                    ...best.slice(j + 1),
+                ];
+                const candidateDistance = pathDistance(start, candidate, end);
+
+                if (candidateDistance < bestDistance - 0.01) {
+                    best = candidate;
+                    bestDistance = candidateDistance;
+                    improved = true;
+                }
+            }
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Plan pickup trips: nearest-neighbour ordering split by capacity, each trip
+ * ending at the drop-off point (or back at the start), then refined with 2-opt.
+ * @param start - Where the collector starts
+ * @param stops - Pickups to visit
+ * @param options - Drop-off point, capacity and initial load
+ * @returns Ordered trips with per-leg and total distances in meters
+ */
+export function planRoute(start: RoutePoint, stops: RouteStop[], options: RouteOptions = {}): RoutePlan {
+    const capacity = options.maxKgPerTrip ?? Infinity;
+    const end = options.dropOff ?? start;
+    const remaining = [...stops];
+    const groups: { start: RoutePoint; stops: RouteStop[]; loadKg: number; overCapacity: boolean }[] = [];
+
+    let current = { start, stops: [] as RouteStop[], loadKg: options.initialLoadKg ?? 0, overCapacity: false };
+    let position: RoutePoint = start;
+
+    while (remaining.length > 0) {
+        // Nearest stop that still fits in this trip
+        let nextIndex = -1;
+        let nextDistance = Infinity;
+        remaining.forEach((stop, index) => {
+            const distance = distanceBetween(position, stop);
+            if (current.loadKg + stop.kg <= capacity && distance < nextDistance) {
+                nextIndex = index;
+                nextDistance = distance;
+            }
+        });
+
+        if (nextIndex === -1) {
+            if (current.stops.length > 0 || current.loadKg > 0) {
+                // Trip is full: unload and start a new one from the drop-off point
+                groups.push(current);
+                current = { start: end, stops: [], loadKg: 0, overCapacity: false };
+                position = end;
+                continue;
+            }
+
+            // Even an empty trip cannot carry it: give the nearest oversized stop its own trip
+            remaining.forEach((stop, index) => {
+                const distance = distanceBetween(position, stop);
+                if (distance < nextDistance) {
+                    nextIndex = index;
+                    nextDistance = distance;
+                }
+            });
+            current.overCapacity = true;
+        }
+
+        const [stop] = remaining.splice(nextIndex, 1);
+        current.stops.push(stop);
+        current.loadKg += stop.kg;
+        position = stop;
+    }
+
+    if (current.stops.length > 0 || current.loadKg > 0) {
+        groups.push(current);
+    }
+
+    const trips: PlannedTrip[] = groups.map(group => {
+        const ordered = twoOpt(group.start, group.stops, end);
+
+        let previous = group.start;
+        const plannedStops = ordered.map(stop => {
+            const legDistance = distanceBetween(previous, stop);
+            previous = stop;
+            return { ...stop, legDistance: Math.round(legDistance) };
+        });
+
+        const endDistance = Math.round(distanceBetween(previous, end));
+        const distance = plannedStops.reduce((sum, s) => sum + s.legDistance, 0) + endDistance;
+
+        return {
+            stops: plannedStops,
+            loadKg: group.loadKg,
+            endLeg: {
+                to: options.dropOff ? 'DROP_OFF' : 'START',
+                distance: endDistance,
+            },
+            distance,
+            overCapacity: group.overCapacity,
+        };
+    });
+
+    return {
+        trips,
+        totalDistance: trips.reduce((sum, t) => sum + t.distance, 0),
+    };
+}